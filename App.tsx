@@ -1,13 +1,25 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import Chat from './components/Chat';
+import ConversationList from './components/ConversationList';
 import MediaAnalyzer from './components/MediaAnalyzer';
 import LiveChat from './components/LiveChat';
 import Transcriber from './components/Transcriber';
 import LoginPage from './components/LoginPage';
-import { SparklesIcon, MessageSquareIcon, FilmIcon, MicIcon, AudioLinesIcon, GraduationCapIcon, LogOutIcon, MenuIcon, XIcon } from './components/Icons';
+import ClassDashboard from './components/ClassDashboard';
+import TemplateEditor from './components/TemplateEditor';
+import ClassInvites from './components/ClassInvites';
+import type { AuthUser, Conversation, UserRole } from './types';
+import { aiProvider } from './services/aiProvider';
+import { restoreSession, keepSessionAlive, logout } from './services/authService';
+import { fetchTutorLock, NO_TUTOR_LOCK, TutorLock } from './services/classroomService';
+import { fetchTemplateRegistry, DEFAULT_TEMPLATE_REGISTRY, TemplateRegistry } from './services/templateRegistry';
+import { hasOidcCallback, completeOidcSignIn } from './services/oidcService';
+import { createConversation, loadConversations, saveConversations, clearConversations } from './services/conversationStore';
+import { clearLectureTranscript } from './services/lectureTranscript';
+import { SparklesIcon, MessageSquareIcon, FilmIcon, MicIcon, AudioLinesIcon, GraduationCapIcon, LogOutIcon, MenuIcon, XIcon, LoaderIcon, UsersIcon, LayoutTemplateIcon } from './components/Icons';
 
-type Feature = 'chat' | 'media' | 'live' | 'transcribe';
+type Feature = 'chat' | 'media' | 'live' | 'transcribe' | 'classes' | 'templates';
 
 interface NavItem {
   id: Feature;
@@ -15,6 +27,8 @@ interface NavItem {
   // fix: Use React.ReactElement to avoid JSX namespace error.
   icon: React.ReactElement;
   description: string;
+  // Roles that see this item; everyone when omitted.
+  roles?: readonly UserRole[];
 }
 
 interface SidebarProps {
@@ -23,11 +37,20 @@ interface SidebarProps {
   navItems: readonly NavItem[];
   activeFeature: Feature;
   setActiveFeature: (feature: Feature) => void;
-  currentUser: string | null;
+  currentUser: AuthUser | null;
   handleLogout: () => void;
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onSelectConversation: (id: string) => void;
+  onCreateConversation: () => void;
+  onRenameConversation: (id: string, title: string) => void;
+  onDeleteConversation: (id: string) => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, navItems, activeFeature, setActiveFeature, currentUser, handleLogout }) => {
+const Sidebar: React.FC<SidebarProps> = ({
+  isOpen, onClose, navItems, activeFeature, setActiveFeature, currentUser, handleLogout,
+  conversations, activeConversationId, onSelectConversation, onCreateConversation, onRenameConversation, onDeleteConversation,
+}) => {
   const handleNavItemClick = (feature: Feature) => {
     setActiveFeature(feature);
     onClose();
@@ -59,7 +82,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, navItems, activeFeat
             <XIcon className="w-6 h-6 text-gray-600 dark:text-gray-300" />
           </button>
         </div>
-        <nav className="flex-1 px-4 py-6 space-y-2">
+        <nav className="px-4 py-6 space-y-2">
           {navItems.map((item) => (
             <button
               key={item.id}
@@ -75,11 +98,25 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, navItems, activeFeat
             </button>
           ))}
         </nav>
+        <div className="flex-1 flex flex-col min-h-0 pb-4">
+          <ConversationList
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            onSelect={onSelectConversation}
+            onCreate={onCreateConversation}
+            onRename={onRenameConversation}
+            onDelete={onDeleteConversation}
+          />
+        </div>
         <div className="p-4 border-t border-gray-200 dark:border-gray-700">
           {currentUser && (
-            <div className="mb-4">
-                <p className="text-sm font-medium text-gray-800 dark:text-gray-200">Signed in as</p>
-                <p className="text-sm font-bold text-indigo-600 dark:text-indigo-400 truncate">{currentUser}</p>
+            <div className="mb-4 flex items-center gap-3">
+                {currentUser.picture && <img src={currentUser.picture} alt="" className="w-10 h-10 rounded-full flex-shrink-0" referrerPolicy="no-referrer" />}
+                <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-800 dark:text-gray-200">Signed in as</p>
+                    <p className="text-sm font-bold text-indigo-600 dark:text-indigo-400 truncate">{currentUser.displayName ?? currentUser.username}</p>
+                    {currentUser.email && <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{currentUser.email}</p>}
+                </div>
             </div>
           )}
            <button
@@ -91,7 +128,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, navItems, activeFeat
           </button>
           <div className="flex items-center text-sm text-gray-500 dark:text-gray-400 mt-4">
             <SparklesIcon className="w-5 h-5 mr-2 text-indigo-400" />
-            <span>Powered by Gemini</span>
+            <span>Powered by {aiProvider.label}</span>
           </div>
         </div>
       </aside>
@@ -102,53 +139,201 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, navItems, activeFeat
 
 const App: React.FC = () => {
   const [activeFeature, setActiveFeature] = useState<Feature>('chat');
-  const [currentUser, setCurrentUser] = useState<string | null>(() => sessionStorage.getItem('chatgps-currentUser'));
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(true);
+  const [signInError, setSignInError] = useState('');
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [tutorLock, setTutorLock] = useState<TutorLock>(NO_TUTOR_LOCK);
+  const [templates, setTemplates] = useState<TemplateRegistry>(DEFAULT_TEMPLATE_REGISTRY);
+
+  const beginSession = (user: AuthUser) => {
+    const loaded = loadConversations(user.username);
+    setConversations(loaded);
+    setActiveConversationId(loaded[0]?.id ?? null);
+    setCurrentUser(user);
+  };
+
+  const endSession = () => {
+    setActiveFeature('chat');
+    setConversations([]);
+    setActiveConversationId(null);
+    setTutorLock(NO_TUTOR_LOCK);
+    setTemplates(DEFAULT_TEMPLATE_REGISTRY);
+    setCurrentUser(null);
+    setIsSidebarOpen(false);
+  };
+
+  // Finish a social sign-in redirect, or validate any stored session, before showing the app.
+  useEffect(() => {
+    let cancelled = false;
+    const pendingUser = hasOidcCallback()
+      ? completeOidcSignIn().catch((error: Error) => {
+          if (!cancelled) setSignInError(error.message);
+          return null;
+        })
+      : restoreSession();
+    pendingUser.then(user => {
+      if (cancelled) return;
+      if (user) beginSession(user);
+      setIsCheckingSession(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    return keepSessionAlive(endSession);
+  }, [currentUser]);
+
+  // Teachers can lock tutor mode on for their classes; pick that up whenever a student signs in.
+  useEffect(() => {
+    if (currentUser?.role !== 'student') return;
+    let cancelled = false;
+    fetchTutorLock()
+      .then(lock => {
+        if (!cancelled) setTutorLock(lock);
+      })
+      .catch(error => console.error('Failed to load tutor mode settings:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    let cancelled = false;
+    fetchTemplateRegistry().then(registry => {
+      if (!cancelled) setTemplates(registry);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentUser]);
 
-  const navItems = [
+  useEffect(() => {
+    if (currentUser) {
+      saveConversations(currentUser.username, conversations);
+    }
+  }, [currentUser, conversations]);
+
+  // Every signed-in user always has at least one conversation to type into.
+  useEffect(() => {
+    if (!currentUser) return;
+    if (conversations.length === 0) {
+      const conversation = createConversation();
+      setConversations([conversation]);
+      setActiveConversationId(conversation.id);
+    } else if (!conversations.some(c => c.id === activeConversationId)) {
+      setActiveConversationId(conversations[0].id);
+    }
+  }, [currentUser, conversations, activeConversationId]);
+
+  const allNavItems: readonly NavItem[] = [
     { id: 'chat', name: 'Student Chat', icon: <MessageSquareIcon />, description: 'Get help with homework or ask about school services.' },
     { id: 'media', name: 'Media Analyzer', icon: <FilmIcon />, description: 'Upload an image or video and ask questions about it.' },
     { id: 'live', name: 'Conversation Audio Transfer', icon: <AudioLinesIcon />, description: 'Speak directly with the AI assistant in real-time.' },
     { id: 'transcribe', name: 'Audio Transcriber', icon: <MicIcon />, description: 'Record your voice and get a live transcription.' },
-  ] as const;
+    { id: 'classes', name: 'Class Dashboard', icon: <UsersIcon />, description: 'Manage your classes, follow student activity and review flagged conversations.', roles: ['teacher', 'admin'] },
+    { id: 'templates', name: 'Template Editor', icon: <LayoutTemplateIcon />, description: 'Edit the subjects, tasks and prompts offered to students.', roles: ['admin'] },
+  ];
+  const navItems = allNavItems.filter(item => !item.roles || (currentUser && item.roles.includes(currentUser.role)));
+  const activeNavItem = navItems.find(item => item.id === activeFeature);
   
-  const handleLogin = (username: string) => {
-    setCurrentUser(username);
-    sessionStorage.setItem('chatgps-currentUser', username);
+  const handleLogin = (user: AuthUser) => {
+    beginSession(user);
   };
 
   const handleLogout = () => {
     if (window.confirm('Are you sure you want to log out? Your chat history on this device will be permanently deleted.')) {
         if (currentUser) {
-            localStorage.removeItem(`chatgps-chat-history-${currentUser}`);
+            clearConversations(currentUser.username);
+            clearLectureTranscript(currentUser.username);
         }
-        setCurrentUser(null);
-        sessionStorage.removeItem('chatgps-currentUser');
-        setIsSidebarOpen(false);
+        logout();
+        endSession();
     }
   };
 
+  const updateConversation = (id: string, updater: (conversation: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(c => (c.id === id ? { ...updater(c), updatedAt: Date.now() } : c)));
+  };
+
+  // A student who has just joined a class picks up its tutor mode settings straight away.
+  const refreshTutorLock = () => {
+    fetchTutorLock()
+      .then(setTutorLock)
+      .catch(error => console.error('Failed to load tutor mode settings:', error));
+  };
+
+  const showConversation = (id: string) => {
+    setActiveConversationId(id);
+    setActiveFeature('chat');
+    setIsSidebarOpen(false);
+  };
+
+  const handleCreateConversation = () => {
+    const conversation = createConversation();
+    setConversations(prev => [conversation, ...prev]);
+    showConversation(conversation.id);
+  };
+
+  // A voice session is added to the history on its first turn; later turns only replace its
+  // messages, so a rename in the meantime is kept.
+  const saveVoiceSession = (conversation: Conversation) => {
+    setConversations(prev => prev.some(c => c.id === conversation.id)
+      ? prev.map(c => (c.id === conversation.id ? { ...c, messages: conversation.messages, updatedAt: conversation.updatedAt } : c))
+      : [conversation, ...prev]);
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    setConversations(prev => prev.map(c => (c.id === id ? { ...c, title } : c)));
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    setConversations(prev => prev.filter(c => c.id !== id));
+  };
+
+  if (isCheckingSession) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900">
+        <LoaderIcon className="w-8 h-8 animate-spin text-indigo-500" />
+      </div>
+    );
+  }
+
   if (!currentUser) {
-    return <LoginPage onLogin={handleLogin} />;
+    return <LoginPage onLogin={handleLogin} initialError={signInError} />;
   }
 
+  const activeConversation = conversations.find(c => c.id === activeConversationId);
+
+  const renderChat = () => (
+    activeConversation ? <Chat key={activeConversation.id} conversation={activeConversation} onUpdateConversation={updateConversation} tutorLock={tutorLock} templates={templates} /> : null
+  );
+
   const renderFeature = () => {
     switch (activeFeature) {
       case 'chat':
-        return <Chat currentUser={currentUser} />;
+        return renderChat();
       case 'media':
         return <MediaAnalyzer />;
       case 'live':
-        return <LiveChat />;
+        return <LiveChat username={currentUser.username} onSaveSession={saveVoiceSession} onOpenConversation={showConversation} />;
       case 'transcribe':
-        return <Transcriber />;
+        return <Transcriber username={currentUser.username} />;
+      case 'classes':
+        return activeNavItem ? <ClassDashboard subjects={templates.subjects.map(s => s.name)} /> : renderChat();
+      case 'templates':
+        return activeNavItem ? <TemplateEditor registry={templates} onSaved={setTemplates} /> : renderChat();
       default:
-        return <Chat currentUser={currentUser} />;
+        return renderChat();
     }
   };
 
-  const activeNavItem = navItems.find(item => item.id === activeFeature);
-
   return (
     <div className="h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
       <Sidebar
@@ -159,6 +344,12 @@ const App: React.FC = () => {
         setActiveFeature={setActiveFeature}
         currentUser={currentUser}
         handleLogout={handleLogout}
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        onSelectConversation={showConversation}
+        onCreateConversation={handleCreateConversation}
+        onRenameConversation={handleRenameConversation}
+        onDeleteConversation={handleDeleteConversation}
       />
       <div className="flex flex-col h-screen">
         <header className="bg-white dark:bg-gray-800 p-4 border-b border-gray-200 dark:border-gray-700 flex items-center shadow-sm flex-shrink-0">
@@ -174,6 +365,7 @@ const App: React.FC = () => {
             <p className="text-sm text-gray-500 dark:text-gray-400 hidden sm:block">{activeNavItem?.description}</p>
           </div>
         </header>
+        {currentUser.role === 'student' && <ClassInvites onJoined={refreshTutorLock} />}
         <main className="flex-1 overflow-y-auto">
           {renderFeature()}
         </main>
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { AttachmentPart } from '../types';
+import { attachmentDataUrl, isImageAttachment } from '../services/attachments';
+import { FileTextIcon, XIcon } from './Icons';
+
+interface AttachmentThumbnailsProps {
+  attachments: AttachmentPart[];
+  // Shows a remove button on each attachment, for ones that have not been sent yet.
+  onRemove?: (index: number) => void;
+}
+
+const AttachmentThumbnails: React.FC<AttachmentThumbnailsProps> = ({ attachments, onRemove }) => (
+  <div className="flex flex-wrap gap-2">
+    {attachments.map((attachment, index) => (
+      <div key={index} className="relative" title={attachment.fileName}>
+        {isImageAttachment(attachment) && attachment.inlineData.data ? (
+          <img src={attachmentDataUrl(attachment)} alt={attachment.fileName} className="h-20 w-20 object-cover rounded-lg border border-gray-200 dark:border-gray-600 bg-white" />
+        ) : (
+          <div className="h-20 w-32 p-2 flex flex-col justify-between rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200">
+            <FileTextIcon className="w-5 h-5 text-indigo-500" />
+            <span className="text-xs truncate">{attachment.fileName}</span>
+            {!attachment.inlineData.data && <span className="text-[10px] text-gray-500 dark:text-gray-400">No longer stored</span>}
+          </div>
+        )}
+        {onRemove && (
+          <button
+            type="button"
+            onClick={() => onRemove(index)}
+            className="absolute -top-2 -right-2 p-0.5 rounded-full bg-gray-700 text-white hover:bg-gray-900"
+            aria-label={`Remove ${attachment.fileName}`}
+          >
+            <XIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default AttachmentThumbnails;
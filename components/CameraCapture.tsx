@@ -0,0 +1,183 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { startCamera, stopStream, snapshot, snapshotToFile, normalizeCrop, isUsefulCrop, CameraFacing, CropRect, FULL_FRAME } from '../services/cameraCapture';
+import { LoaderIcon, CameraIcon } from './Icons';
+
+interface CameraCaptureProps {
+    onCapture: (file: File) => void;
+    onClose: () => void;
+}
+
+// Takes a photo with the device camera: capture, then optionally drag out a crop, then use or retake it.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+    const [facing, setFacing] = useState<CameraFacing>('environment');
+    const [isStarting, setIsStarting] = useState(true);
+    const [still, setStill] = useState<{ canvas: HTMLCanvasElement; url: string } | null>(null);
+    const [crop, setCrop] = useState<CropRect>(FULL_FRAME);
+    const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const imageRef = useRef<HTMLImageElement>(null);
+
+    // The camera is only on while there is no photo to review.
+    useEffect(() => {
+        if (still) return;
+        let stream: MediaStream | null = null;
+        let cancelled = false;
+        setIsStarting(true);
+        setError('');
+        startCamera(facing)
+            .then(started => {
+                if (cancelled) {
+                    stopStream(started);
+                    return;
+                }
+                stream = started;
+                if (videoRef.current) videoRef.current.srcObject = started;
+            })
+            .catch(err => {
+                if (!cancelled) setError((err as Error).message);
+            })
+            .finally(() => {
+                if (!cancelled) setIsStarting(false);
+            });
+        return () => {
+            cancelled = true;
+            stopStream(stream);
+        };
+    }, [facing, still]);
+
+    useEffect(() => () => {
+        if (still) URL.revokeObjectURL(still.url);
+    }, [still]);
+
+    const capture = () => {
+        if (!videoRef.current) return;
+        try {
+            const canvas = snapshot(videoRef.current);
+            canvas.toBlob(blob => {
+                if (!blob) {
+                    setError('The photo could not be taken.');
+                    return;
+                }
+                setCrop(FULL_FRAME);
+                setStill({ canvas, url: URL.createObjectURL(blob) });
+            }, 'image/jpeg');
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    const retake = () => {
+        setStill(null);
+        setCrop(FULL_FRAME);
+    };
+
+    // Pointer position as a fraction of the displayed photo.
+    const pointerFraction = (e: React.PointerEvent) => {
+        const bounds = imageRef.current!.getBoundingClientRect();
+        return { x: (e.clientX - bounds.left) / bounds.width, y: (e.clientY - bounds.top) / bounds.height };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = pointerFraction(e);
+        setDragStart(point);
+        setCrop({ ...point, width: 0, height: 0 });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!dragStart) return;
+        const point = pointerFraction(e);
+        setCrop(normalizeCrop(dragStart.x, dragStart.y, point.x, point.y));
+    };
+
+    const handlePointerUp = () => {
+        setDragStart(null);
+        // A click without a real drag keeps the whole photo.
+        setCrop(prev => (isUsefulCrop(prev) ? prev : FULL_FRAME));
+    };
+
+    const usePhoto = async () => {
+        if (!still) return;
+        setIsSaving(true);
+        try {
+            onCapture(await snapshotToFile(still.canvas, crop));
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const isCropped = crop !== FULL_FRAME && isUsefulCrop(crop);
+
+    return (
+        <div className="space-y-3 p-3 rounded-lg border border-gray-200 dark:border-gray-600">
+            <div className="relative rounded-lg overflow-hidden bg-black">
+                {still ? (
+                    // Sized to the photo itself, without letterboxing, so positions over the image and
+                    // the crop overlay map straight onto the photo's pixels.
+                    <div
+                        className="relative w-fit mx-auto touch-none select-none cursor-crosshair"
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                    >
+                        <img ref={imageRef} src={still.url} alt="Captured photo" className="block max-w-full max-h-80" draggable={false} />
+                        {(isCropped || dragStart) && (
+                            <div
+                                className="absolute border-2 border-white pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                                style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` }}
+                            />
+                        )}
+                    </div>
+                ) : (
+                    <video ref={videoRef} autoPlay playsInline muted className="w-full max-h-80 object-contain"></video>
+                )}
+                {isStarting && !still && (
+                    <div className="absolute inset-0 flex items-center justify-center text-white">
+                        <LoaderIcon className="w-6 h-6 animate-spin" />
+                    </div>
+                )}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                {still ? 'Drag across the photo to crop it to the part you need help with.' : 'Hold the page flat and fill the frame with it.'}
+            </p>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <div className="flex flex-wrap items-center gap-2">
+                {still ? (
+                    <>
+                        <button type="button" onClick={usePhoto} disabled={isSaving} className="px-3 py-1.5 text-sm font-medium rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-indigo-400">
+                            {isCropped ? 'Use Cropped Photo' : 'Use Photo'}
+                        </button>
+                        {isCropped && (
+                            <button type="button" onClick={() => setCrop(FULL_FRAME)} className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500">
+                                Reset Crop
+                            </button>
+                        )}
+                        <button type="button" onClick={retake} className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500">
+                            Retake
+                        </button>
+                    </>
+                ) : (
+                    <>
+                        <button type="button" onClick={capture} disabled={isStarting || !!error} className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-indigo-400">
+                            <CameraIcon className="w-4 h-4" />
+                            Capture
+                        </button>
+                        <button type="button" onClick={() => setFacing(prev => (prev === 'environment' ? 'user' : 'environment'))} disabled={isStarting} className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500">
+                            Switch Camera
+                        </button>
+                    </>
+                )}
+                <button type="button" onClick={onClose} className="ml-auto px-3 py-1.5 text-sm font-medium rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600">
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CameraCapture;
@@ -1,94 +1,288 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import type { ChatMessage } from '../types';
-import { generateText } from '../services/geminiService';
-import { SendIcon, LoaderIcon, SparklesIcon, MicIcon, TrashIcon } from './Icons';
-import { Content, GoogleGenAI, LiveServerMessage, Blob, LiveSession } from '@google/genai';
-
-// Helper function for audio encoding
-function encode(bytes: Uint8Array): string {
-    let binary = '';
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-}
+import type { AttachmentPart, ChatMessage, Conversation, OutputFormat } from '../types';
+import { aiProvider, ChatPrompt } from '../services/aiProvider';
+import { startLiveSession, LiveSession, LiveConnectionState } from '../services/liveSession';
+import { DEFAULT_CONVERSATION_TITLE, titleFromText, messageText, messageAttachments, toHistory, toModelPart } from '../services/conversationStore';
+import { readAttachment, ACCEPTED_ATTACHMENT_TYPES, MAX_ATTACHMENTS_PER_MESSAGE } from '../services/attachments';
+import { solutionToMarkdown } from '../services/stepSolution';
+import { extractFinalAnswer, verifyAnswer, recheckPrompt } from '../services/mathVerifier';
+import { extractSnippet } from '../services/codeRunner';
+import { formatClockTime } from '../services/voiceTranscript';
+import MarkdownMessage from './MarkdownMessage';
+import StepByStepSolution from './StepByStepSolution';
+import VerificationBadge from './VerificationBadge';
+import CodeRunPanel from './CodeRunPanel';
+import AttachmentThumbnails from './AttachmentThumbnails';
+import LiveConnectionStatus from './LiveConnectionStatus';
+import { recordUsage, flagConversation, isTutorLocked, TutorLock } from '../services/classroomService';
+import { TemplateRegistry, resolveTemplate, renderPrompt } from '../services/templateRegistry';
+import { buildTutorInstruction, countAttempts, leaksFinalAnswer, enforceHintOnly, MIN_ATTEMPTS_BEFORE_ANSWER } from '../services/tutorMode';
+import { SendIcon, LoaderIcon, SparklesIcon, MicIcon, TrashIcon, StopIcon, FlagIcon, PaperclipIcon } from './Icons';
+import { startMicrophoneCapture, createPcmBlob, MicrophoneCapture } from '../services/audioCapture';
+import { Content, LiveServerMessage, Part } from '@google/genai';
 
 interface ChatProps {
-  currentUser: string;
+  conversation: Conversation;
+  onUpdateConversation: (id: string, updater: (conversation: Conversation) => Conversation) => void;
+  tutorLock: TutorLock;
+  templates: TemplateRegistry;
 }
 
-const Chat: React.FC<ChatProps> = ({ currentUser }) => {
-  const CHAT_HISTORY_KEY = `chatgps-chat-history-${currentUser}`;
+interface ReplyOptions {
+  controller: AbortController;
+  systemInstruction?: string;
+  outputFormat: OutputFormat;
+  guardAnswer: boolean;
+  userText: string;
+}
+
+// Sent in place of the question when the student attaches files without typing anything.
+const ATTACHMENT_ONLY_QUESTION = 'Please help me with the attached file.';
+
+// Answers in this subject are checked locally even when the task does not ask for steps.
+const MATH_SUBJECT = 'Math';
+
+// The student's code and the model's corrected version when a reply can be demonstrated by
+// running both; the student's message is the nearest one they typed before the reply.
+const runnableFix = (messages: ChatMessage[], index: number) => {
+  const question = messages.slice(0, index).reverse().find(m => m.role === 'user' && !m.isAutomatic);
+  const original = question && extractSnippet(messageText(question), 'first');
+  const fixed = original && extractSnippet(messageText(messages[index]), 'last', original.language);
+  return original && fixed && fixed.language === original.language && fixed.code.trim() !== original.code.trim() ? { original, fixed } : null;
+};
+
+// Registry names plus the conversation's own choice, in case an admin has since removed it.
+const optionsWith = (names: string[], current: string) => (names.includes(current) ? names : [...names, current]);
+
+const Chat: React.FC<ChatProps> = ({ conversation, onUpdateConversation, tutorLock, templates }) => {
+  const { id: conversationId, messages, subject, problemType } = conversation;
+  const template = resolveTemplate(templates, subject, problemType);
+  const subjectOptions = optionsWith(templates.subjects.map(s => s.name), subject);
+  const problemTypeOptions = optionsWith(templates.tasks.map(t => t.name), problemType);
+  const tutorLocked = isTutorLocked(tutorLock, subject);
+  const tutorModeActive = tutorLocked || !!conversation.tutorMode;
 
-  const [messages, setMessages] = useState<ChatMessage[]>(() => {
-    try {
-        const savedHistory = localStorage.getItem(CHAT_HISTORY_KEY);
-        return savedHistory ? JSON.parse(savedHistory) : [];
-    } catch (error) {
-        console.error("Failed to load chat history from localStorage", error);
-        return [];
-    }
-  });
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [useLiteModel, setUseLiteModel] = useState(false);
-  const [subject, setSubject] = useState('General');
-  const [problemType, setProblemType] = useState('General Question');
-  
+  const [isFlagging, setIsFlagging] = useState(false);
+  const [attachments, setAttachments] = useState<AttachmentPart[]>([]);
+  const [attachError, setAttachError] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+
+  // A task template can pin the model; otherwise the student's toggle decides.
+  const modelFixedByTemplate = template.preferredModel !== 'any';
+  const liteModelSelected = modelFixedByTemplate ? template.preferredModel === 'lite' : useLiteModel;
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const sessionRef = useRef<Promise<LiveSession> | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
+  const [dictationConnection, setDictationConnection] = useState<{ state: LiveConnectionState; attempt: number }>({ state: 'closed', attempt: 0 });
+  const captureRef = useRef<MicrophoneCapture | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
   useEffect(scrollToBottom, [messages]);
-  
-  useEffect(() => {
+
+  const setMessages = (updater: (prev: ChatMessage[]) => ChatMessage[]) => {
+    onUpdateConversation(conversationId, c => ({ ...c, messages: updater(c.messages) }));
+  };
+
+  const setSubject = (value: string) => {
+    onUpdateConversation(conversationId, c => ({ ...c, subject: value }));
+  };
+
+  const setProblemType = (value: string) => {
+    onUpdateConversation(conversationId, c => ({ ...c, problemType: value }));
+  };
+
+  const setTutorMode = (value: boolean) => {
+    onUpdateConversation(conversationId, c => ({ ...c, tutorMode: value }));
+  };
+
+  const nameConversation = async (userText: string, modelText: string) => {
+    let title: string;
     try {
-        localStorage.setItem(CHAT_HISTORY_KEY, JSON.stringify(messages));
+      title = await aiProvider.generateConversationTitle(userText, modelText);
     } catch (error) {
-        console.error("Failed to save chat history to localStorage", error);
+      console.error('Error generating conversation title:', error);
+      title = '';
     }
-  }, [messages, CHAT_HISTORY_KEY]);
+    const finalTitle = title || titleFromText(userText);
+    // Leave titles the student has already renamed untouched.
+    onUpdateConversation(conversationId, c => (c.title === DEFAULT_CONVERSATION_TITLE ? { ...c, title: finalTitle } : c));
+  };
+
+  // Replaces a message in place; used for streaming updates and for attaching a verification.
+  const replaceMessage = (previous: ChatMessage, next: ChatMessage) => {
+    setMessages((prev) => prev.map(m => (m === previous ? next : m)));
+  };
+
+  // Streams or generates one model reply into the conversation and returns the final message,
+  // or null if nothing arrived before the request was stopped.
+  const requestReply = async (prompt: ChatPrompt, history: Content[], options: ReplyOptions): Promise<ChatMessage | null> => {
+    const { controller, systemInstruction, outputFormat, guardAnswer, userText } = options;
+    if (outputFormat === 'steps') {
+      const solution = await aiProvider.generateStepSolution(prompt, history, liteModelSelected, controller.signal, systemInstruction);
+      if (!solution) return null;
+      const solutionMessage: ChatMessage = { role: 'model', parts: [{ text: solutionToMarkdown(solution) }], outputFormat, solution };
+      setMessages((prev) => [...prev, solutionMessage]);
+      return solutionMessage;
+    }
+
+    let modelMessage: ChatMessage | null = null;
+    let leakedReply = '';
+    for await (const text of aiProvider.generateTextStream(prompt, history, liteModelSelected, controller.signal, systemInstruction)) {
+      if (guardAnswer && leaksFinalAnswer(text)) {
+        // Stop before the answer reaches the screen; the reply is replaced with a hint below.
+        leakedReply = text;
+        controller.abort();
+        break;
+      }
+      const next: ChatMessage = { role: 'model', parts: [{ text }], outputFormat };
+      if (modelMessage) {
+        // Replace the growing model bubble with the latest accumulated text.
+        replaceMessage(modelMessage, next);
+      } else {
+        setMessages((prev) => [...prev, next]);
+      }
+      modelMessage = next;
+    }
+    if (leakedReply) {
+      const hintMessage: ChatMessage = { role: 'model', parts: [{ text: await enforceHintOnly(userText, leakedReply) }], outputFormat };
+      if (modelMessage) {
+        replaceMessage(modelMessage, hintMessage);
+      } else {
+        setMessages((prev) => [...prev, hintMessage]);
+      }
+      return hintMessage;
+    }
+    return modelMessage;
+  };
+
+  // Checks the reply's final answer locally and badges it. On a mismatch the model is asked once
+  // to re-check its work; the corrected reply is checked too, but never sent back again.
+  const verifyReply = async (reply: ChatMessage, history: Content[], options: ReplyOptions, allowRecheck = true) => {
+    const answer = reply.solution?.finalAnswer ?? extractFinalAnswer(messageText(reply));
+    // Prefer the problem as typed; a restated one only helps when the student gave no equation.
+    const problem = reply.solution && !options.userText.includes('=') ? reply.solution.problem : options.userText;
+    const verification = verifyAnswer(problem, answer);
+    if (!verification) return;
+    replaceMessage(reply, { ...reply, verification });
+    if (!allowRecheck || !answer || verification.status !== 'mismatch' || options.controller.signal.aborted) return;
+
+    const recheckText = recheckPrompt(answer, verification);
+    setMessages((prev) => [...prev, { role: 'user', parts: [{ text: recheckText }], isAutomatic: true }]);
+    const recheckHistory: Content[] = [...history, ...toHistory([reply])];
+    const recheck = await requestReply(recheckText, recheckHistory, options);
+    if (recheck) {
+      await verifyReply(recheck, [...recheckHistory, { role: 'user', parts: [{ text: recheckText }] }], options, false);
+    }
+  };
+
+  const addAttachments = async (files: File[]) => {
+    setAttachError('');
+    const limitMessage = `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files to one message.`;
+    // Skips reading files that cannot fit; the limit itself is checked against the latest state
+    // below, because two quick pastes or drops both start from the same `attachments`.
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - attachments.length;
+    if (files.length > room) {
+      setAttachError(limitMessage);
+    }
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      try {
+        const attachment = await readAttachment(file);
+        setAttachments((prev) => {
+          if (prev.length >= MAX_ATTACHMENTS_PER_MESSAGE) {
+            setAttachError(limitMessage);
+            return prev;
+          }
+          return [...prev, attachment];
+        });
+      } catch (err) {
+        setAttachError((err as Error).message);
+      }
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addAttachments(files);
+    }
+  };
 
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files') || isLoading) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Moving between child elements also fires dragleave; only react when leaving the chat.
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addAttachments(Array.from(e.dataTransfer.files));
+  };
 
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    if ((!input.trim() && attachments.length === 0) || isLoading) return;
 
     const userMessage: ChatMessage = {
       role: 'user',
-      parts: [{ text: input }],
+      parts: [...attachments, ...(input.trim() ? [{ text: input }] : [])],
     };
     setMessages((prev) => [...prev, userMessage]);
 
-    let promptForAI = input;
-    if (subject !== 'General' || problemType !== 'General Question') {
-        promptForAI = `As an expert in ${subject}, please help me with the following task: ${problemType}.\n\nHere is my problem:\n${input}`;
-    }
+    const userText = input.trim() ? input : ATTACHMENT_ONLY_QUESTION;
+    const promptForAI = renderPrompt(template.promptTemplate, { subject, task: problemType, input: userText });
+    const promptParts: Part[] = [...attachments.map(toModelPart), { text: promptForAI }];
+
+    recordUsage('chat', { subject, problemType });
 
+    const isFirstExchange = messages.length === 0;
     setInput('');
+    setAttachments([]);
+    setAttachError('');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const attempts = countAttempts([...messages, userMessage]);
+    // Until the student has made enough attempts, replies are checked for a leaked final answer.
+    const guardAnswer = tutorModeActive && attempts < MIN_ATTEMPTS_BEFORE_ANSWER;
+    const systemInstruction = [template.systemInstruction, tutorModeActive ? buildTutorInstruction(subject, problemType, attempts) : '']
+      .filter(Boolean)
+      .join('\n\n') || undefined;
+    // A structured solution would hand over the final answer, so tutor mode falls back to hints.
+    const outputFormat = template.outputFormat === 'steps' && guardAnswer ? 'markdown' : template.outputFormat;
+    const options: ReplyOptions = { controller, systemInstruction, outputFormat, guardAnswer, userText };
+
     try {
-      const history = messages.map(msg => ({
-        role: msg.role,
-        parts: msg.parts
-      })) as Content[];
+      const history = toHistory(messages);
 
-      const response = await generateText(promptForAI, history, useLiteModel);
-      const modelMessage: ChatMessage = {
-        role: 'model',
-        parts: [{ text: response.text }],
-      };
-      setMessages((prev) => [...prev, modelMessage]);
+      const reply = await requestReply(promptParts, history, options);
+      // Hints deliberately hold the answer back, so there is nothing to check in tutor mode.
+      if (reply && !guardAnswer && (subject === MATH_SUBJECT || outputFormat === 'steps')) {
+        await verifyReply(reply, [...history, { role: 'user', parts: promptParts }], options);
+      }
+      if (isFirstExchange && reply) {
+        nameConversation(userText, messageText(reply));
+      }
     } catch (error) {
       console.error('Error sending message:', error);
       const errorMessage: ChatMessage = {
@@ -97,81 +291,66 @@ const Chat: React.FC<ChatProps> = ({ currentUser }) => {
       };
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const stopRecording = useCallback(() => {
-    if (sessionRef.current) {
-        sessionRef.current.then(session => session.close());
-        sessionRef.current = null;
-    }
-    if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-        streamRef.current = null;
-    }
-    if (scriptProcessorRef.current) {
-        scriptProcessorRef.current.disconnect();
-        scriptProcessorRef.current = null;
-    }
-     if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        audioContextRef.current.close();
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    session?.close();
+    if (captureRef.current) {
+        captureRef.current.stop();
+        captureRef.current = null;
     }
     setIsRecording(false);
   }, []);
 
-  const startRecording = async () => {
+  const startRecording = () => {
     setInput('');
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-      sessionRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: { inputAudioTranscription: {} },
-        callbacks: {
-          onopen: async () => {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            streamRef.current = stream;
-            const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            audioContextRef.current = inputAudioContext;
-
-            const source = inputAudioContext.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current = scriptProcessor;
-
-            scriptProcessor.onaudioprocess = (event) => {
-              const inputData = event.inputBuffer.getChannelData(0);
-              const pcmBlob: Blob = {
-                data: encode(new Uint8Array(new Int16Array(inputData.map(f => f * 32768)).buffer)),
-                mimeType: 'audio/pcm;rate=16000',
-              };
-              if (sessionRef.current) {
-                sessionRef.current.then(session => session.sendRealtimeInput({ media: pcmBlob }));
-              }
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContext.destination);
-            setIsRecording(true);
-          },
-          onmessage: (message: LiveServerMessage) => {
-            const transcript = message.serverContent?.inputTranscription?.text;
-            if (transcript) {
-              setInput(prev => prev + transcript);
-            }
-          },
-          onerror: (e) => {
-            console.error('Live session error:', e);
-            stopRecording();
-          },
-          onclose: () => {
-             // Handled by stopRecording
-          },
-        },
-      });
-    } catch (err) {
-      console.error('Failed to start recording:', err);
-      alert('Could not start recording. Please ensure you have given microphone permissions.');
-      setIsRecording(false);
-    }
+    sessionRef.current = startLiveSession({
+      config: { inputAudioTranscription: {} },
+      onOpen: async () => {
+        let capture: MicrophoneCapture;
+        try {
+          capture = await startMicrophoneCapture({
+            onChunk: (pcm) => {
+              sessionRef.current?.send({ media: createPcmBlob(pcm) });
+            },
+          });
+        } catch (err) {
+          console.error('Failed to start recording:', err);
+          alert('Could not start recording. Please ensure you have given microphone permissions.');
+          stopRecording();
+          return;
+        }
+        // The user may have stopped dictation while the microphone was starting up.
+        if (!sessionRef.current) {
+          capture.stop();
+          return;
+        }
+        captureRef.current = capture;
+        setIsRecording(true);
+      },
+      onMessage: (message: LiveServerMessage) => {
+        const transcript = message.serverContent?.inputTranscription?.text;
+        if (transcript) {
+          setInput(prev => prev + transcript);
+        }
+      },
+      onStateChange: (state, attempt) => setDictationConnection({ state, attempt }),
+      onClose: (error) => {
+        if (error) {
+          console.error('Dictation stopped:', error);
+        }
+        stopRecording();
+      },
+    });
   };
 
   const handleMicClick = () => {
@@ -183,21 +362,52 @@ const Chat: React.FC<ChatProps> = ({ currentUser }) => {
   };
 
   const handleClearHistory = () => {
-    if (window.confirm('Are you sure you want to clear the chat history? This action cannot be undone.')) {
-        setMessages([]);
+    if (window.confirm('Are you sure you want to clear this conversation? This action cannot be undone.')) {
+        setMessages(() => []);
+    }
+  };
+
+  const handleFlag = async () => {
+    const reason = window.prompt('What would you like your teacher to look at in this conversation?');
+    if (reason === null) return;
+    setIsFlagging(true);
+    try {
+      const classCount = await flagConversation(conversation, reason);
+      alert(classCount > 0
+        ? 'This conversation has been sent to your teacher.'
+        : "You are not in a class yet, so there is no teacher to send this to. Accept your teacher's invitation to their class first.");
+    } catch (error) {
+      console.error('Failed to flag conversation:', error);
+      alert(`Could not flag this conversation: ${(error as Error).message}`);
+    } finally {
+      setIsFlagging(false);
     }
   };
 
   useEffect(() => {
     return () => {
         stopRecording();
+        abortControllerRef.current?.abort();
     }
   }, [stopRecording]);
 
+  // Skips the reply that is still streaming, whose code block may be incomplete.
+  const runnableFixes = messages.map((msg, index) =>
+    msg.role === 'model' && !(isLoading && index === messages.length - 1) ? runnableFix(messages, index) : null);
+
   return (
-    <div className="flex flex-col h-full bg-gray-50 dark:bg-gray-800">
+    <div
+      className={`flex flex-col h-full bg-gray-50 dark:bg-gray-800 ${isDragging ? 'ring-4 ring-inset ring-indigo-400' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <div className="flex-1 overflow-y-auto p-6 space-y-6">
-        {messages.map((msg, index) => (
+        {messages.map((msg, index) => msg.isAutomatic ? (
+          <p key={index} className="mx-auto max-w-xl text-center text-xs italic text-gray-500 dark:text-gray-400">
+            Automatic re-check: {messageText(msg)}
+          </p>
+        ) : (
           <div
             key={index}
             className={`flex items-start gap-4 ${msg.role === 'user' ? 'justify-end' : ''}`}
@@ -208,17 +418,36 @@ const Chat: React.FC<ChatProps> = ({ currentUser }) => {
               </div>
             )}
             <div
-              className={`max-w-xl p-4 rounded-2xl whitespace-pre-wrap ${
+              className={`max-w-xl p-4 rounded-2xl ${
                 msg.role === 'user'
-                  ? 'bg-indigo-500 text-white rounded-br-none'
-                  : 'bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-bl-none'
+                  ? 'bg-indigo-500 text-white rounded-br-none whitespace-pre-wrap'
+                  : `bg-white dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-bl-none min-w-0 ${msg.outputFormat === 'plain' ? 'whitespace-pre-wrap' : ''}`
               }`}
             >
-              {msg.parts[0].text}
+              {msg.role === 'user' && messageAttachments(msg).length > 0 && (
+                <div className={messageText(msg) ? 'mb-2' : ''}>
+                  <AttachmentThumbnails attachments={messageAttachments(msg)} />
+                </div>
+              )}
+              {msg.role === 'model' && msg.solution ? (
+                <StepByStepSolution solution={msg.solution} />
+              ) : msg.role === 'model' && msg.outputFormat !== 'plain' ? (
+                <MarkdownMessage text={messageText(msg)} />
+              ) : (
+                messageText(msg)
+              )}
+              {msg.spokenAt !== undefined && (
+                <p className={`mt-2 flex items-center gap-1 text-xs ${msg.role === 'user' ? 'text-indigo-100' : 'text-gray-500 dark:text-gray-400'}`}>
+                  <MicIcon className="w-3 h-3" />
+                  Spoken at {formatClockTime(msg.spokenAt)}{msg.interrupted && ', interrupted'}
+                </p>
+              )}
+              {msg.verification && <VerificationBadge verification={msg.verification} />}
+              {runnableFixes[index] && <CodeRunPanel original={runnableFixes[index].original} fixed={runnableFixes[index].fixed} />}
             </div>
           </div>
         ))}
-        {isLoading && (
+        {isLoading && messages[messages.length - 1]?.role !== 'model' && (
           <div className="flex items-start gap-4">
             <div className="w-8 h-8 rounded-full bg-indigo-500 flex items-center justify-center text-white flex-shrink-0">
                 <SparklesIcon className="w-5 h-5" />
@@ -238,13 +467,23 @@ const Chat: React.FC<ChatProps> = ({ currentUser }) => {
                     Homework Helper
                 </h4>
                 {messages.length > 0 && (
-                    <button
-                        onClick={handleClearHistory}
-                        className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-                    >
-                        <TrashIcon className="w-4 h-4" />
-                        Clear History
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handleFlag}
+                            disabled={isFlagging || isLoading}
+                            className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+                        >
+                            <FlagIcon className="w-4 h-4" />
+                            Flag for Teacher
+                        </button>
+                        <button
+                            onClick={handleClearHistory}
+                            className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                        >
+                            <TrashIcon className="w-4 h-4" />
+                            Clear History
+                        </button>
+                    </div>
                 )}
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -257,12 +496,7 @@ const Chat: React.FC<ChatProps> = ({ currentUser }) => {
                         className="w-full p-2 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-500 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 transition"
                         disabled={isRecording}
                     >
-                        <option>General</option>
-                        <option>Math</option>
-                        <option>Science</option>
-                        <option>English</option>
-                        <option>History</option>
-                        <option>Computer Science</option>
+                        {subjectOptions.map(s => <option key={s}>{s}</option>)}
                     </select>
                 </div>
                 <div>
@@ -274,22 +508,47 @@ const Chat: React.FC<ChatProps> = ({ currentUser }) => {
                         className="w-full p-2 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-500 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 transition"
                         disabled={isRecording}
                     >
-                        <option>General Question</option>
-                        <option>Solve an Equation</option>
-                        <option>Explain a Concept</option>
-                        <option>Outline an Essay</option>
-                        <option>Debug Code</option>
-                        <option>Fact Check</option>
+                        {problemTypeOptions.map(p => <option key={p}>{p}</option>)}
                     </select>
                 </div>
             </div>
         </div>
+        {(attachments.length > 0 || attachError) && (
+          <div className="mb-3 space-y-2">
+            {attachments.length > 0 && (
+              <AttachmentThumbnails attachments={attachments} onRemove={index => setAttachments((prev) => prev.filter((_, i) => i !== index))} />
+            )}
+            {attachError && <p className="text-xs text-red-500">{attachError}</p>}
+          </div>
+        )}
+        {isRecording && <LiveConnectionStatus state={dictationConnection.state} attempt={dictationConnection.attempt} className="mb-3" />}
         <form onSubmit={handleSend} className="flex items-center gap-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_ATTACHMENT_TYPES}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addAttachments(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="p-3 bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+            disabled={isLoading || isRecording || attachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+            aria-label="Attach an image or document"
+          >
+            <PaperclipIcon className="w-6 h-6" />
+          </button>
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            placeholder={isRecording ? "Listening..." : "Ask a question..."}
+            onPaste={handlePaste}
+            placeholder={isRecording ? "Listening..." : "Ask a question, or paste a photo of your work..."}
             className="flex-1 p-3 rounded-lg bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500"
             disabled={isLoading || isRecording}
           />
@@ -301,23 +560,46 @@ const Chat: React.FC<ChatProps> = ({ currentUser }) => {
           >
             <MicIcon className={`w-6 h-6 ${isRecording ? 'text-red-500 animate-pulse' : ''}`} />
           </button>
-          <button
-            type="submit"
-            className="p-3 bg-indigo-500 text-white rounded-lg disabled:bg-indigo-300 hover:bg-indigo-600 transition-colors"
-            disabled={isLoading || !input.trim() || isRecording}
-          >
-            <SendIcon className="w-6 h-6" />
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="p-3 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+              aria-label="Stop generating"
+            >
+              <StopIcon className="w-6 h-6" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="p-3 bg-indigo-500 text-white rounded-lg disabled:bg-indigo-300 hover:bg-indigo-600 transition-colors"
+              disabled={(!input.trim() && attachments.length === 0) || isRecording}
+            >
+              <SendIcon className="w-6 h-6" />
+            </button>
+          )}
         </form>
-         <div className="flex items-center mt-2">
-            <label htmlFor="lite-model-toggle" className="flex items-center cursor-pointer">
+         <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mt-2">
+            <label htmlFor="lite-model-toggle" className={`flex items-center ${modelFixedByTemplate ? 'cursor-not-allowed' : 'cursor-pointer'}`}>
               <div className="relative">
-                <input type="checkbox" id="lite-model-toggle" className="sr-only" checked={useLiteModel} onChange={() => setUseLiteModel(!useLiteModel)} />
+                <input type="checkbox" id="lite-model-toggle" className="sr-only" checked={liteModelSelected} disabled={modelFixedByTemplate} onChange={() => setUseLiteModel(!useLiteModel)} />
                 <div className="block bg-gray-600 w-10 h-6 rounded-full"></div>
-                <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${useLiteModel ? 'transform translate-x-full bg-indigo-400' : ''}`}></div>
+                <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${liteModelSelected ? 'transform translate-x-full bg-indigo-400' : ''}`}></div>
               </div>
               <div className="ml-3 text-gray-700 dark:text-gray-300 text-sm font-medium">
                 Use Fast Response Model (Flash Lite)
+                {modelFixedByTemplate && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">Set by this task</span>}
+              </div>
+            </label>
+            <label htmlFor="tutor-mode-toggle" className={`flex items-center ${tutorLocked ? 'cursor-not-allowed' : 'cursor-pointer'}`}>
+              <div className="relative">
+                <input type="checkbox" id="tutor-mode-toggle" className="sr-only" checked={tutorModeActive} disabled={tutorLocked} onChange={() => setTutorMode(!conversation.tutorMode)} />
+                <div className="block bg-gray-600 w-10 h-6 rounded-full"></div>
+                <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${tutorModeActive ? 'transform translate-x-full bg-indigo-400' : ''}`}></div>
+              </div>
+              <div className="ml-3 text-gray-700 dark:text-gray-300 text-sm font-medium">
+                Tutor Mode (hints first)
+                {tutorLocked && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">Locked on by your teacher</span>}
               </div>
             </label>
           </div>
@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Classroom, StudentUsage, FlaggedConversation, TutorLock, NO_TUTOR_LOCK,
+  fetchClasses, createClass, inviteStudent, removeStudent, fetchClassUsage, fetchClassFlags, setTutorLock,
+} from '../services/classroomService';
+import MarkdownMessage from './MarkdownMessage';
+import { LoaderIcon, PlusIcon, TrashIcon, FlagIcon, XIcon } from './Icons';
+
+const FEATURE_LABELS: Record<string, string> = {
+  chat: 'Chat',
+  media: 'Media',
+  live: 'Voice',
+  transcribe: 'Transcribe',
+};
+
+// "Math (4), Science (2)" for the most frequent keys of a usage breakdown.
+const summarize = (counts: Record<string, number>, labels: Record<string, string> = {}, limit = 3): string => {
+  const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  if (entries.length === 0) return '—';
+  return entries.slice(0, limit).map(([key, count]) => `${labels[key] ?? key} (${count})`).join(', ');
+};
+
+const formatDate = (timestamp: number | null) => (timestamp ? new Date(timestamp).toLocaleString() : 'Never');
+
+interface ClassDashboardProps {
+  // Subject names from the template registry, offered for tutor mode locks.
+  subjects: string[];
+}
+
+const ClassDashboard: React.FC<ClassDashboardProps> = ({ subjects }) => {
+  const [classes, setClasses] = useState<Classroom[]>([]);
+  const [selectedClassId, setSelectedClassId] = useState<string | null>(null);
+  const [usage, setUsage] = useState<StudentUsage[]>([]);
+  const [flags, setFlags] = useState<FlaggedConversation[]>([]);
+  const [openFlagId, setOpenFlagId] = useState<string | null>(null);
+  const [newClassName, setNewClassName] = useState('');
+  const [newStudent, setNewStudent] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const selectedClass = classes.find(c => c.id === selectedClassId) ?? null;
+
+  useEffect(() => {
+    fetchClasses()
+      .then(loaded => {
+        setClasses(loaded);
+        setSelectedClassId(loaded[0]?.id ?? null);
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const loadClassDetails = useCallback(async (classId: string) => {
+    try {
+      const [loadedUsage, loadedFlags] = await Promise.all([fetchClassUsage(classId), fetchClassFlags(classId)]);
+      setUsage(loadedUsage);
+      setFlags(loadedFlags);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    setUsage([]);
+    setFlags([]);
+    setOpenFlagId(null);
+    if (selectedClassId) {
+      loadClassDetails(selectedClassId);
+    }
+  }, [selectedClassId, loadClassDetails]);
+
+  const replaceClass = (updated: Classroom) => {
+    setClasses(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+  };
+
+  const handleCreateClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newClassName.trim()) return;
+    setError('');
+    try {
+      const created = await createClass(newClassName.trim());
+      setClasses(prev => [...prev, created]);
+      setSelectedClassId(created.id);
+      setNewClassName('');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedClass || !newStudent.trim()) return;
+    setError('');
+    try {
+      replaceClass(await inviteStudent(selectedClass.id, newStudent.trim()));
+      setNewStudent('');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const updateTutorLock = async (tutorLock: TutorLock) => {
+    if (!selectedClass) return;
+    setError('');
+    try {
+      replaceClass(await setTutorLock(selectedClass.id, tutorLock));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const toggleLockedSubject = (subject: string) => {
+    const current = selectedClass?.tutorLock ?? NO_TUTOR_LOCK;
+    const subjects = current.subjects.includes(subject)
+      ? current.subjects.filter(s => s !== subject)
+      : [...current.subjects, subject];
+    updateTutorLock({ ...current, subjects });
+  };
+
+  const handleRemove = async (username: string) => {
+    if (!selectedClass) return;
+    const isInvited = selectedClass.invited?.includes(username);
+    if (!window.confirm(isInvited ? `Withdraw the invitation for ${username}?` : `Remove ${username} from ${selectedClass.name}?`)) return;
+    setError('');
+    try {
+      replaceClass(await removeStudent(selectedClass.id, username));
+      await loadClassDetails(selectedClass.id);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <LoaderIcon className="w-8 h-8 animate-spin text-indigo-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <section className="lg:col-span-1 space-y-4">
+        <h2 className="text-lg font-semibold">Your Classes</h2>
+        <ul className="space-y-1">
+          {classes.map(c => (
+            <li key={c.id}>
+              <button
+                onClick={() => setSelectedClassId(c.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm ${
+                  c.id === selectedClassId
+                    ? 'bg-indigo-500 text-white'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                <span className="font-medium">{c.name}</span>
+                <span className="block text-xs opacity-75">{c.students.length} students</span>
+              </button>
+            </li>
+          ))}
+          {classes.length === 0 && <li className="text-sm text-gray-500 dark:text-gray-400">No classes yet.</li>}
+        </ul>
+        <form onSubmit={handleCreateClass} className="flex gap-2">
+          <input
+            type="text"
+            value={newClassName}
+            onChange={e => setNewClassName(e.target.value)}
+            placeholder="New class name"
+            className="flex-1 min-w-0 p-2 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button type="submit" disabled={!newClassName.trim()} className="p-2 bg-indigo-500 text-white rounded-md hover:bg-indigo-600 disabled:bg-indigo-300" aria-label="Create class">
+            <PlusIcon className="w-5 h-5" />
+          </button>
+        </form>
+      </section>
+
+      <section className="lg:col-span-3 space-y-6">
+        {error && <p className="p-3 rounded-md bg-red-100 dark:bg-red-900/40 text-sm text-red-700 dark:text-red-300">{error}</p>}
+        {!selectedClass ? (
+          <p className="text-gray-500 dark:text-gray-400">Create a class to start following your students' progress.</p>
+        ) : (
+          <>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <h2 className="text-lg font-semibold">{selectedClass.name}</h2>
+                <form onSubmit={handleInvite} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newStudent}
+                    onChange={e => setNewStudent(e.target.value)}
+                    placeholder="Student username"
+                    className="p-2 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button type="submit" disabled={!newStudent.trim()} className="px-3 py-2 text-sm bg-indigo-500 text-white rounded-md hover:bg-indigo-600 disabled:bg-indigo-300">
+                    Invite Student
+                  </button>
+                </form>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="py-2 pr-4">Student</th>
+                      <th className="py-2 pr-4">Activity</th>
+                      <th className="py-2 pr-4">Features</th>
+                      <th className="py-2 pr-4">Subjects</th>
+                      <th className="py-2 pr-4">Tasks</th>
+                      <th className="py-2 pr-4">Last Active</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {usage.map(student => (
+                      <tr key={student.username}>
+                        <td className="py-2 pr-4">
+                          <span className="font-medium">{student.displayName ?? student.username}</span>
+                          {student.displayName && <span className="block text-xs text-gray-500 dark:text-gray-400">{student.username}</span>}
+                        </td>
+                        <td className="py-2 pr-4">{student.total}</td>
+                        <td className="py-2 pr-4">{summarize(student.byFeature, FEATURE_LABELS)}</td>
+                        <td className="py-2 pr-4">{summarize(student.bySubject)}</td>
+                        <td className="py-2 pr-4">{summarize(student.byTask)}</td>
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatDate(student.lastActiveAt)}</td>
+                        <td className="py-2 text-right">
+                          <button onClick={() => handleRemove(student.username)} className="p-1 rounded-md text-gray-500 hover:text-red-500" aria-label={`Remove ${student.username}`}>
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {selectedClass.students.length === 0 && (
+                  <p className="py-4 text-sm text-gray-500 dark:text-gray-400">
+                    No students enrolled yet. Invite them by their ChatGPS username; their activity shows here once they accept.
+                  </p>
+                )}
+                {(selectedClass.invited?.length ?? 0) > 0 && (
+                  <div className="mt-3">
+                    <h3 className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-1">Invited, not yet accepted</h3>
+                    <ul className="flex flex-wrap gap-2">
+                      {selectedClass.invited!.map(username => (
+                        <li key={username} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-sm">
+                          {username}
+                          <button onClick={() => handleRemove(username)} className="p-0.5 rounded-full text-gray-500 hover:text-red-500" aria-label={`Withdraw the invitation for ${username}`}>
+                            <XIcon className="w-3.5 h-3.5" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+              <h3 className="text-md font-semibold mb-1">Tutor Mode</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Locked subjects only get hints and guiding questions until a student has made real attempts of their own.
+              </p>
+              <label className="flex items-center gap-2 text-sm font-medium mb-3">
+                <input
+                  type="checkbox"
+                  checked={selectedClass.tutorLock?.allSubjects ?? false}
+                  onChange={e => updateTutorLock({ ...(selectedClass.tutorLock ?? NO_TUTOR_LOCK), allSubjects: e.target.checked })}
+                />
+                Lock tutor mode on for every subject
+              </label>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {subjects.map(subject => (
+                  <label key={subject} className={`flex items-center gap-2 text-sm ${selectedClass.tutorLock?.allSubjects ? 'opacity-50' : ''}`}>
+                    <input
+                      type="checkbox"
+                      checked={selectedClass.tutorLock?.allSubjects || (selectedClass.tutorLock?.subjects.includes(subject) ?? false)}
+                      disabled={selectedClass.tutorLock?.allSubjects}
+                      onChange={() => toggleLockedSubject(subject)}
+                    />
+                    {subject}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+              <h3 className="text-md font-semibold mb-3 flex items-center gap-2">
+                <FlagIcon className="w-5 h-5 text-indigo-500" />
+                Flagged Conversations
+              </h3>
+              {flags.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No conversations have been flagged.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {flags.map(flag => (
+                    <li key={flag.id} className="border border-gray-200 dark:border-gray-700 rounded-lg">
+                      <button
+                        onClick={() => setOpenFlagId(openFlagId === flag.id ? null : flag.id)}
+                        className="w-full text-left p-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 rounded-lg"
+                      >
+                        <span className="font-medium">{flag.title}</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          {flag.username} · {flag.subject} · {flag.problemType} · {formatDate(flag.createdAt)}
+                        </span>
+                        {flag.reason && <span className="block mt-1 text-sm italic text-gray-700 dark:text-gray-300">“{flag.reason}”</span>}
+                      </button>
+                      {openFlagId === flag.id && (
+                        <div className="p-3 space-y-3 border-t border-gray-200 dark:border-gray-700">
+                          {flag.messages.map((message, index) => (
+                            <div
+                              key={index}
+                              className={`p-3 rounded-lg text-sm ${
+                                message.role === 'user'
+                                  ? 'bg-indigo-50 dark:bg-indigo-900/30 whitespace-pre-wrap'
+                                  : 'bg-gray-50 dark:bg-gray-700'
+                              }`}
+                            >
+                              <p className="text-xs font-semibold mb-1 text-gray-500 dark:text-gray-400">{message.role === 'user' ? flag.username : 'Assistant'}</p>
+                              {message.role === 'model' ? <MarkdownMessage text={message.text} /> : message.text}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ClassDashboard;
@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { ClassInvite, fetchClassInvites, respondToClassInvite } from '../services/classroomService';
+
+interface ClassInvitesProps {
+  // Called after the student joins a class, whose tutor mode settings now apply to them.
+  onJoined: () => void;
+}
+
+// Invitations from teachers, shown to students above every feature until they are answered.
+const ClassInvites: React.FC<ClassInvitesProps> = ({ onJoined }) => {
+  const [invites, setInvites] = useState<ClassInvite[]>([]);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchClassInvites()
+      .then(loaded => {
+        if (!cancelled) setInvites(loaded);
+      })
+      .catch(err => console.error('Failed to load class invitations:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const respond = async (invite: ClassInvite, accept: boolean) => {
+    setRespondingTo(invite.classId);
+    setError('');
+    try {
+      await respondToClassInvite(invite.classId, accept);
+      setInvites(prev => prev.filter(i => i.classId !== invite.classId));
+      if (accept) onJoined();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRespondingTo(null);
+    }
+  };
+
+  if (invites.length === 0) return null;
+
+  return (
+    <div className="flex-shrink-0 p-3 space-y-2 bg-indigo-50 dark:bg-indigo-900/30 border-b border-indigo-200 dark:border-indigo-800">
+      {invites.map(invite => (
+        <div key={invite.classId} className="flex flex-wrap items-center gap-3 text-sm">
+          <p className="flex-1 min-w-0">
+            <strong>{invite.teacher}</strong> invited you to join <strong>{invite.className}</strong>.
+            <span className="block text-xs text-gray-600 dark:text-gray-400">
+              If you join, your teacher can see which features and subjects you use and any conversations you flag, and can turn on tutor mode for you.
+            </span>
+          </p>
+          <button
+            onClick={() => respond(invite, true)}
+            disabled={respondingTo !== null}
+            className="px-3 py-1.5 text-sm font-medium rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-indigo-300"
+          >
+            Join
+          </button>
+          <button
+            onClick={() => respond(invite, false)}
+            disabled={respondingTo !== null}
+            className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Decline
+          </button>
+        </div>
+      ))}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default ClassInvites;
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { runCode, diffLines, CodeSnippet, RunResult, LANGUAGE_LABELS, RUN_TIME_LIMIT_MS } from '../services/codeRunner';
+import { PlayIcon, LoaderIcon } from './Icons';
+
+interface CodeRunPanelProps {
+  original: CodeSnippet;
+  fixed: CodeSnippet;
+}
+
+const STATUS_STYLES: Record<RunResult['status'], string> = {
+  ok: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  error: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  timeout: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+};
+
+const statusLabel = (result: RunResult) =>
+  result.status === 'ok' ? `Ran in ${result.durationMs} ms` : result.status === 'timeout' ? 'Timed out' : 'Error';
+
+const RunOutput: React.FC<{ title: string; result: RunResult }> = ({ title, result }) => (
+  <div className="min-w-0 space-y-2">
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-xs font-semibold">{title}</span>
+      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[result.status]}`}>{statusLabel(result)}</span>
+    </div>
+    <pre className="p-2 rounded bg-gray-900 text-gray-100 text-xs overflow-x-auto whitespace-pre-wrap min-h-[2.5rem]">
+      {result.stdout || <span className="text-gray-500">(no output)</span>}
+    </pre>
+    {result.stderr && (
+      <pre className="p-2 rounded bg-red-950 text-red-200 text-xs overflow-x-auto whitespace-pre-wrap">{result.stderr}</pre>
+    )}
+  </div>
+);
+
+const DIFF_STYLES = {
+  same: 'text-gray-400',
+  added: 'bg-green-900/50 text-green-200',
+  removed: 'bg-red-900/50 text-red-200',
+};
+const DIFF_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+const Diff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <pre className="p-2 rounded bg-gray-900 text-xs overflow-x-auto">
+    {diffLines(before, after).map((line, index) => (
+      <div key={index} className={DIFF_STYLES[line.type]}>{`${DIFF_MARKERS[line.type]} ${line.text}`}</div>
+    ))}
+  </pre>
+);
+
+// Runs the student's snippet and the model's corrected version in the browser sandbox so the fix
+// is shown working rather than just described.
+const CodeRunPanel: React.FC<CodeRunPanelProps> = ({ original, fixed }) => {
+  const [results, setResults] = useState<[RunResult, RunResult] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [diffOf, setDiffOf] = useState<'output' | 'code'>('output');
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      // One at a time, so the two programs do not compete for the CPU under the same time limit.
+      const originalResult = await runCode(original);
+      const fixedResult = await runCode(fixed);
+      setResults([originalResult, fixedResult]);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-600 space-y-3">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg bg-indigo-500 text-white hover:bg-indigo-600 disabled:bg-indigo-300"
+        >
+          {isRunning ? <LoaderIcon className="w-3.5 h-3.5 animate-spin" /> : <PlayIcon className="w-3.5 h-3.5" />}
+          {results ? 'Run Again' : 'Run Both Versions'}
+        </button>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {LANGUAGE_LABELS[original.language]} in a sandbox, {RUN_TIME_LIMIT_MS / 1000}s limit, no network
+        </span>
+      </div>
+      {results && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <RunOutput title="Your code" result={results[0]} />
+            <RunOutput title="Suggested fix" result={results[1]} />
+          </div>
+          <div className="space-y-1">
+            <div className="flex gap-1 text-xs">
+              {(['output', 'code'] as const).map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setDiffOf(kind)}
+                  className={`px-2 py-0.5 rounded ${diffOf === kind ? 'bg-gray-200 dark:bg-gray-600 font-semibold' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-600/50'}`}
+                >
+                  {kind === 'output' ? 'Output diff' : 'Code diff'}
+                </button>
+              ))}
+            </div>
+            {diffOf === 'output'
+              ? <Diff before={results[0].stdout + results[0].stderr} after={results[1].stdout + results[1].stderr} />
+              : <Diff before={original.code} after={fixed.code} />}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CodeRunPanel;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import type { Conversation } from '../types';
+import { messageText } from '../services/conversationStore';
+import { PlusIcon, PencilIcon, TrashIcon, MicIcon } from './Icons';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Matches the title or anything said in the conversation, ignoring case.
+const matchesSearch = (conversation: Conversation, query: string) => {
+  const needle = query.trim().toLowerCase();
+  return !needle
+    || conversation.title.toLowerCase().includes(needle)
+    || conversation.messages.some(message => messageText(message).toLowerCase().includes(needle));
+};
+
+const ConversationList: React.FC<ConversationListProps> = ({ conversations, activeConversationId, onSelect, onCreate, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [search, setSearch] = useState('');
+
+  const sortedConversations = conversations
+    .filter(conversation => matchesSearch(conversation, search))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title}"? This action cannot be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-0">
+      <div className="flex items-center justify-between px-4 mb-2">
+        <h2 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">Conversations</h2>
+        <button
+          onClick={onCreate}
+          className="p-1 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+          aria-label="New conversation"
+        >
+          <PlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {conversations.length > 1 && (
+        <div className="px-4 mb-2">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search conversations"
+            className="w-full px-3 py-1.5 text-sm rounded-lg bg-gray-100 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Search conversations"
+          />
+        </div>
+      )}
+      <ul className="flex-1 overflow-y-auto px-4 space-y-1">
+        {sortedConversations.length === 0 && search.trim() && (
+          <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No conversations match "{search.trim()}".</li>
+        )}
+        {sortedConversations.map((conversation) => (
+          <li key={conversation.id}>
+            {editingId === conversation.id ? (
+              <input
+                type="text"
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={commitEditing}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitEditing();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-full px-3 py-2 text-sm rounded-lg bg-gray-100 dark:bg-gray-700 border border-indigo-500 focus:outline-none"
+                autoFocus
+              />
+            ) : (
+              <div
+                className={`group flex items-center rounded-lg text-sm transition-colors duration-200 ${
+                  activeConversationId === conversation.id
+                    ? 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  className="flex-1 min-w-0 flex items-center gap-1.5 px-3 py-2 text-left"
+                  title={conversation.source === 'voice' ? `${conversation.title} (voice session)` : conversation.title}
+                >
+                  {conversation.source === 'voice' && <MicIcon className="w-3.5 h-3.5 flex-shrink-0" aria-label="Voice session" />}
+                  <span className="truncate">{conversation.title}</span>
+                </button>
+                <button
+                  onClick={() => startEditing(conversation)}
+                  className="p-1 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-indigo-500"
+                  aria-label="Rename conversation"
+                >
+                  <PencilIcon className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(conversation)}
+                  className="p-1 mr-1 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-red-500"
+                  aria-label="Delete conversation"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ConversationList;
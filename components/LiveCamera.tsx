@@ -0,0 +1,227 @@
+import React, { useState, useRef, useEffect, useCallback, useReducer } from 'react';
+import { LiveServerMessage, Modality } from '@google/genai';
+import { startLiveSession, LiveSession, LiveConnectionState } from '../services/liveSession';
+import { startMicrophoneCapture, createPcmBlob, MicrophoneCapture } from '../services/audioCapture';
+import { createAudioPlayer, AudioPlayer } from '../services/audioPlayback';
+import { createVoiceActivityDetector, VoiceActivityDetector } from '../services/voiceActivity';
+import { startCamera, stopStream, streamFrames } from '../services/cameraCapture';
+import { recordUsage } from '../services/classroomService';
+import { applyTranscriptEvent, EMPTY_TRANSCRIPT, VoiceTurn } from '../services/voiceTranscript';
+import LiveConnectionStatus from './LiveConnectionStatus';
+import { LoaderIcon, MicIcon, StopIcon } from './Icons';
+
+interface LiveCameraProps {
+    onClose: () => void;
+}
+
+const SYSTEM_INSTRUCTION = 'You are ChatGPS, a friendly tutor for students. You receive a live view from the student\'s camera, usually pointed at a worksheet or textbook, together with their voice. Refer to what you can see, guide them through the problem rather than just giving the answer, and keep your spoken replies short. If the page is blurry or out of frame, ask them to adjust the camera.';
+
+const TurnLines: React.FC<{ turn: VoiceTurn; isCurrent?: boolean }> = ({ turn, isCurrent }) => (
+    <div className={`mb-2 ${isCurrent ? 'text-gray-500' : ''}`}>
+        {turn.user && <p><strong className="text-indigo-500">You:</strong> {turn.user}</p>}
+        {turn.model && (
+            <p>
+                <strong className="text-green-500">ChatGPS:</strong> {turn.model}
+                {turn.interrupted && <span className="ml-1 text-xs italic text-gray-500 dark:text-gray-400">(interrupted)</span>}
+            </p>
+        )}
+    </div>
+);
+
+// A voice conversation with the camera switched on: the microphone and a frame roughly every
+// second are streamed into one Live API session, and spoken replies are played back.
+const LiveCamera: React.FC<LiveCameraProps> = ({ onClose }) => {
+    const [isConnecting, setIsConnecting] = useState(false);
+    const [isActive, setIsActive] = useState(false);
+    const [transcript, dispatchTranscript] = useReducer(applyTranscriptEvent, EMPTY_TRANSCRIPT);
+    const [framesSent, setFramesSent] = useState(0);
+    const [error, setError] = useState('');
+    const [connection, setConnection] = useState<{ state: LiveConnectionState; attempt: number }>({ state: 'closed', attempt: 0 });
+
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const sessionRef = useRef<LiveSession | null>(null);
+    const captureRef = useRef<MicrophoneCapture | null>(null);
+    const playerRef = useRef<AudioPlayer | null>(null);
+    const stopFramesRef = useRef<(() => void) | null>(null);
+    const voiceActivityRef = useRef<VoiceActivityDetector | null>(null);
+    // Set while the remaining audio of a reply the student talked over is being dropped.
+    const discardingReplyRef = useRef(false);
+
+    const stopSession = useCallback(() => {
+        stopFramesRef.current?.();
+        stopFramesRef.current = null;
+        const session = sessionRef.current;
+        sessionRef.current = null;
+        session?.close();
+        captureRef.current?.stop();
+        captureRef.current = null;
+        playerRef.current?.close();
+        playerRef.current = null;
+        stopStream(streamRef.current);
+        streamRef.current = null;
+        dispatchTranscript({ type: 'end', at: Date.now() });
+        setIsActive(false);
+        setIsConnecting(false);
+    }, []);
+
+    const interruptReply = () => {
+        playerRef.current?.flush();
+        dispatchTranscript({ type: 'interrupted', at: Date.now() });
+    };
+
+    const startSession = async () => {
+        if (isActive || isConnecting) return;
+        setIsConnecting(true);
+        setError('');
+        dispatchTranscript({ type: 'reset' });
+        setFramesSent(0);
+        recordUsage('live');
+
+        try {
+            const stream = await startCamera();
+            streamRef.current = stream;
+            if (videoRef.current) videoRef.current.srcObject = stream;
+            playerRef.current = createAudioPlayer();
+            voiceActivityRef.current = createVoiceActivityDetector();
+            discardingReplyRef.current = false;
+
+            sessionRef.current = startLiveSession({
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
+                    systemInstruction: SYSTEM_INSTRUCTION,
+                    inputAudioTranscription: {},
+                    outputAudioTranscription: {},
+                },
+                onOpen: async () => {
+                    let capture: MicrophoneCapture;
+                    try {
+                        capture = await startMicrophoneCapture({
+                            onChunk: (pcm) => {
+                                sessionRef.current?.send({ media: createPcmBlob(pcm) });
+                                const isSpeaking = voiceActivityRef.current?.push(pcm) ?? false;
+                                if (isSpeaking && playerRef.current?.isPlaying) {
+                                    discardingReplyRef.current = true;
+                                    interruptReply();
+                                }
+                            },
+                        });
+                    } catch (err) {
+                        console.error('Failed to start the microphone:', err);
+                        setError('Could not start the microphone. Please allow microphone access.');
+                        stopSession();
+                        return;
+                    }
+                    // The session may have been ended while the microphone was starting up.
+                    if (!sessionRef.current) {
+                        capture.stop();
+                        return;
+                    }
+                    captureRef.current = capture;
+                    if (videoRef.current) {
+                        stopFramesRef.current = streamFrames(videoRef.current, (frame) => {
+                            sessionRef.current?.send({ media: frame });
+                            setFramesSent(count => count + 1);
+                        });
+                    }
+                    setIsConnecting(false);
+                    setIsActive(true);
+                },
+                onMessage: (message: LiveServerMessage) => {
+                    const content = message.serverContent;
+                    const at = Date.now();
+                    if (content?.inputTranscription?.text) {
+                        dispatchTranscript({ type: 'input', text: content.inputTranscription.text, at });
+                    }
+                    // The rest of a reply the student cut off was never heard, so it stays out of the transcript.
+                    if (content?.outputTranscription?.text && !discardingReplyRef.current) {
+                        dispatchTranscript({ type: 'output', text: content.outputTranscription.text, at });
+                    }
+                    if (content?.interrupted) {
+                        discardingReplyRef.current = false;
+                        interruptReply();
+                    }
+                    if (content?.turnComplete) {
+                        discardingReplyRef.current = false;
+                        dispatchTranscript({ type: 'turnComplete', at });
+                    }
+                    const base64Audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+                    if (base64Audio && !discardingReplyRef.current) {
+                        playerRef.current?.enqueue(base64Audio);
+                    }
+                },
+                onStateChange: (state, attempt) => {
+                    setConnection({ state, attempt });
+                    if (state === 'reconnecting') {
+                        dispatchTranscript({ type: 'end', at: Date.now() });
+                    }
+                },
+                onClose: (closeError) => {
+                    if (closeError) {
+                        setError(`The live session ended: ${closeError.message}`);
+                    }
+                    stopSession();
+                },
+            });
+        } catch (err) {
+            console.error('Failed to start live camera:', err);
+            setError((err as Error).message);
+            stopSession();
+        }
+    };
+
+    useEffect(() => {
+        return () => {
+            stopSession();
+        };
+    }, [stopSession]);
+
+    const close = () => {
+        stopSession();
+        onClose();
+    };
+
+    return (
+        <div className="space-y-3 p-3 rounded-lg border border-gray-200 dark:border-gray-600">
+            <div className="relative rounded-lg overflow-hidden bg-black">
+                <video ref={videoRef} autoPlay playsInline muted className="w-full max-h-80 object-contain"></video>
+                {!isActive && !isConnecting && (
+                    <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-gray-300">
+                        Point your camera at your work and talk it through with ChatGPS.
+                    </div>
+                )}
+                {isActive && (
+                    <span className="absolute top-2 left-2 flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-red-600 text-white text-xs font-medium">
+                        <span className="w-2 h-2 rounded-full bg-white animate-pulse"></span>
+                        Live · {framesSent} frames
+                    </span>
+                )}
+            </div>
+            <LiveConnectionStatus state={connection.state} attempt={connection.attempt} />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <div className="flex items-center gap-2">
+                <button
+                    type="button"
+                    onClick={isActive ? stopSession : startSession}
+                    disabled={isConnecting}
+                    className={`inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-md text-white disabled:bg-gray-400 ${isActive ? 'bg-red-500 hover:bg-red-600' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+                >
+                    {isConnecting ? <LoaderIcon className="w-4 h-4 animate-spin" /> : isActive ? <StopIcon className="w-4 h-4" /> : <MicIcon className="w-4 h-4" />}
+                    {isConnecting ? 'Connecting...' : isActive ? 'End Session' : 'Start Talking'}
+                </button>
+                <button type="button" onClick={close} className="ml-auto px-3 py-1.5 text-sm font-medium rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600">
+                    Close
+                </button>
+            </div>
+            {(transcript.turns.length > 0 || transcript.current) && (
+                <div className="max-h-48 overflow-y-auto p-3 rounded-lg bg-gray-50 dark:bg-gray-800 text-sm">
+                    {transcript.turns.map((turn, index) => <TurnLines key={index} turn={turn} />)}
+                    {transcript.current && <TurnLines turn={transcript.current} isCurrent />}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LiveCamera;
@@ -1,177 +1,255 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveSession, LiveServerMessage, Modality, Blob } from '@google/genai';
-import { MicIcon } from './Icons';
-
-// Helper functions for audio encoding/decoding
-function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
+import React, { useState, useRef, useEffect, useCallback, useReducer } from 'react';
+import { LiveServerMessage } from '@google/genai';
+import { startLiveSession, LiveSession, LiveConnectionState } from '../services/liveSession';
+import { startMicrophoneCapture, createPcmBlob, MicrophoneCapture } from '../services/audioCapture';
+import { createAudioPlayer, AudioPlayer } from '../services/audioPlayback';
+import { createVoiceActivityDetector, VoiceActivityDetector } from '../services/voiceActivity';
+import { stopStream, streamFrames } from '../services/cameraCapture';
+import { isScreenShareSupported, startScreenShare, SCREEN_FRAME_INTERVAL_MS, SCREEN_FRAME_MAX_DIMENSION } from '../services/screenShare';
+import { recordUsage } from '../services/classroomService';
+import { createConversation } from '../services/conversationStore';
+import { loadVoiceProfile, saveVoiceProfile, buildLiveConfig, personaFor, VoiceProfile } from '../services/voiceProfile';
+import { applyTranscriptEvent, transcriptToMessages, voiceSessionTitle, formatClockTime, EMPTY_TRANSCRIPT, VoiceTurn } from '../services/voiceTranscript';
+import type { Conversation } from '../types';
+import LiveConnectionStatus from './LiveConnectionStatus';
+import VoiceSettings from './VoiceSettings';
+import { MicIcon, MonitorIcon, SlidersIcon, StopIcon } from './Icons';
 
-function decode(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
+interface LiveChatProps {
+  // Voice settings are remembered per user.
+  username: string;
+  // Called with the session's conversation whenever a turn finishes, so it is kept in the history.
+  onSaveSession: (conversation: Conversation) => void;
+  onOpenConversation: (id: string) => void;
 }
 
-// fix: Updated audio decoding function to match guideline implementation for robustness.
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
+const TurnView: React.FC<{ turn: VoiceTurn; isCurrent?: boolean }> = ({ turn, isCurrent }) => (
+  <div className={`mb-2 ${isCurrent ? 'text-gray-500' : ''}`}>
+    <p className="text-xs text-gray-400">{formatClockTime(turn.startedAt)}</p>
+    {turn.user && <p><strong className="text-indigo-500">You:</strong> {turn.user}</p>}
+    {turn.model && (
+      <p>
+        <strong className="text-green-500">ChatGPS:</strong> {turn.model}
+        {turn.interrupted && <span className="ml-1 text-xs italic text-gray-500 dark:text-gray-400">(interrupted)</span>}
+      </p>
+    )}
+  </div>
+);
 
-const LiveChat: React.FC = () => {
+// Each voice session is saved as a conversation marked as spoken, which can be reopened, searched
+// and continued by text in Student Chat. Stopping and starting again continues the same session
+// until the student starts a new one.
+const LiveChat: React.FC<LiveChatProps> = ({ username, onSaveSession, onOpenConversation }) => {
+  const [profile, setProfile] = useState<VoiceProfile>(() => loadVoiceProfile(username));
+  const [showSettings, setShowSettings] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [isActive, setIsActive] = useState(false);
-  const [transcription, setTranscription] = useState<{ user: string; model: string }[]>([]);
-  const [currentInterim, setCurrentInterim] = useState({ user: '', model: '' });
+  const [transcript, dispatchTranscript] = useReducer(applyTranscriptEvent, EMPTY_TRANSCRIPT);
+  const [savedConversationId, setSavedConversationId] = useState<string | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [shareError, setShareError] = useState('');
+  const [connection, setConnection] = useState<{ state: LiveConnectionState; attempt: number }>({ state: 'closed', attempt: 0 });
+  const [error, setError] = useState('');
   
-  const sessionRef = useRef<Promise<LiveSession> | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const sessionRef = useRef<LiveSession | null>(null);
+  const captureRef = useRef<MicrophoneCapture | null>(null);
+  const playerRef = useRef<AudioPlayer | null>(null);
+  const voiceActivityRef = useRef<VoiceActivityDetector | null>(null);
+  // After the student cuts a reply off locally, its remaining audio is dropped until the server
+  // acknowledges the interruption or ends the turn.
+  const discardingReplyRef = useRef(false);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const screenVideoRef = useRef<HTMLVideoElement>(null);
+  const savedConversationRef = useRef<Conversation | null>(null);
+
+  const stopScreenShare = useCallback(() => {
+    stopStream(screenStreamRef.current);
+    screenStreamRef.current = null;
+    setIsSharing(false);
+  }, []);
 
   const stopConversation = useCallback(() => {
-    if (sessionRef.current) {
-        sessionRef.current.then(session => session.close());
-        sessionRef.current = null;
-    }
-    if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
-        streamRef.current = null;
-    }
-    if (scriptProcessorRef.current) {
-        scriptProcessorRef.current.disconnect();
-        scriptProcessorRef.current = null;
-    }
-    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        audioContextRef.current.close();
+    stopScreenShare();
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    session?.close();
+    if (captureRef.current) {
+        captureRef.current.stop();
+        captureRef.current = null;
     }
+    playerRef.current?.close();
+    playerRef.current = null;
+    dispatchTranscript({ type: 'end', at: Date.now() });
     setIsActive(false);
     setIsConnecting(false);
   }, []);
 
-  const startConversation = async () => {
+  // Silences the reply straight away and marks it as cut short in the transcript.
+  const interruptReply = () => {
+    playerRef.current?.flush();
+    dispatchTranscript({ type: 'interrupted', at: Date.now() });
+  };
+
+  // Read by the unmount cleanup, which only sees the first render's state.
+  const transcriptRef = useRef(transcript);
+  transcriptRef.current = transcript;
+
+  const saveTurns = (turns: VoiceTurn[]): Conversation | null => {
+    if (turns.length === 0) return null;
+    const messages = transcriptToMessages(turns);
+    const saved = savedConversationRef.current;
+    const conversation: Conversation = saved
+      ? { ...saved, messages, updatedAt: Date.now() }
+      : { ...createConversation(messages, voiceSessionTitle(turns)), source: 'voice' };
+    savedConversationRef.current = conversation;
+    onSaveSession(conversation);
+    return conversation;
+  };
+
+  useEffect(() => {
+    const conversation = saveTurns(transcript.turns);
+    if (conversation) setSavedConversationId(conversation.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [transcript.turns]);
+
+  const updateProfile = (next: VoiceProfile) => {
+    setProfile(next);
+    saveVoiceProfile(username, next);
+  };
+
+  const startNewSession = () => {
+    dispatchTranscript({ type: 'reset' });
+    savedConversationRef.current = null;
+    setSavedConversationId(null);
+  };
+
+  const startConversation = () => {
     if (isActive || isConnecting) return;
 
     setIsConnecting(true);
-    setTranscription([]);
-    setCurrentInterim({ user: '', model: '' });
+    setError('');
+    recordUsage('live');
+    // With text replies there is nothing to play, and so nothing for the student to talk over.
+    playerRef.current = profile.replyMode === 'audio' ? createAudioPlayer() : null;
+    voiceActivityRef.current = createVoiceActivityDetector();
+    discardingReplyRef.current = false;
 
-    try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        let nextStartTime = 0;
-        const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        const outputNode = outputAudioContext.createGain();
-        outputNode.connect(outputAudioContext.destination);
-
-        sessionRef.current = ai.live.connect({
-            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-                systemInstruction: 'You are ChatGPS, a friendly and helpful AI assistant for students. Keep your answers concise and conversational.',
-                inputAudioTranscription: {},
-                outputAudioTranscription: {}
-            },
-            callbacks: {
-                onopen: async () => {
-                    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-                    streamRef.current = stream;
-                    const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-                    audioContextRef.current = inputAudioContext;
-                    
-                    const source = inputAudioContext.createMediaStreamSource(stream);
-                    const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-                    scriptProcessorRef.current = scriptProcessor;
-
-                    scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                        const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                        const pcmBlob: Blob = {
-                            data: encode(new Uint8Array(new Int16Array(inputData.map(f => f * 32768)).buffer)),
-                            mimeType: 'audio/pcm;rate=16000',
-                        };
-                        if (sessionRef.current) {
-                          sessionRef.current.then((session) => {
-                              session.sendRealtimeInput({ media: pcmBlob });
-                          });
+    sessionRef.current = startLiveSession({
+        config: buildLiveConfig(profile),
+        onOpen: async () => {
+            let capture: MicrophoneCapture;
+            try {
+                capture = await startMicrophoneCapture({
+                    onChunk: (pcm) => {
+                        sessionRef.current?.send({ media: createPcmBlob(pcm) });
+                        // Every chunk goes through the detector so it keeps learning the room's noise level.
+                        const isSpeaking = voiceActivityRef.current?.push(pcm) ?? false;
+                        if (isSpeaking && playerRef.current?.isPlaying) {
+                            discardingReplyRef.current = true;
+                            interruptReply();
                         }
-                    };
-                    source.connect(scriptProcessor);
-                    scriptProcessor.connect(inputAudioContext.destination);
-                    setIsConnecting(false);
-                    setIsActive(true);
-                },
-                onmessage: async (message: LiveServerMessage) => {
-                    if (message.serverContent?.inputTranscription) {
-                        setCurrentInterim(prev => ({ ...prev, user: prev.user + message.serverContent.inputTranscription.text }));
-                    }
-                    if (message.serverContent?.outputTranscription) {
-                        setCurrentInterim(prev => ({ ...prev, model: prev.model + message.serverContent.outputTranscription.text }));
-                    }
-
-                    if (message.serverContent?.turnComplete) {
-                        setTranscription(prev => [...prev, currentInterim]);
-                        setCurrentInterim({user: '', model: ''});
-                    }
-                    
-                    const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-                    if (base64Audio) {
-                        nextStartTime = Math.max(nextStartTime, outputAudioContext.currentTime);
-                        // fix: Pass sample rate and channel count to the updated decodeAudioData function.
-                        const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContext, 24000, 1);
-                        const source = outputAudioContext.createBufferSource();
-                        source.buffer = audioBuffer;
-                        source.connect(outputNode);
-                        source.start(nextStartTime);
-                        nextStartTime += audioBuffer.duration;
-                    }
-                },
-                onerror: (e: ErrorEvent) => {
-                    console.error('Live session error:', e);
-                    stopConversation();
-                },
-                onclose: () => {
-                    stopConversation();
-                }
+                    },
+                });
+            } catch (err) {
+                console.error('Failed to start the microphone:', err);
+                setError('Could not start the microphone. Please allow microphone access.');
+                stopConversation();
+                return;
             }
-        });
-    } catch (err) {
-        console.error('Failed to start conversation:', err);
-        setIsConnecting(false);
-    }
+            // The conversation may have been ended while the microphone was starting up.
+            if (!sessionRef.current) {
+                capture.stop();
+                return;
+            }
+            captureRef.current = capture;
+            setIsConnecting(false);
+            setIsActive(true);
+        },
+        onMessage: (message: LiveServerMessage) => {
+            const at = Date.now();
+            if (message.serverContent?.inputTranscription?.text) {
+                dispatchTranscript({ type: 'input', text: message.serverContent.inputTranscription.text, at });
+            }
+            // The rest of a reply the student cut off was never heard, so it stays out of the transcript.
+            if (message.serverContent?.outputTranscription?.text && !discardingReplyRef.current) {
+                dispatchTranscript({ type: 'output', text: message.serverContent.outputTranscription.text, at });
+            }
+
+            if (message.serverContent?.interrupted) {
+                discardingReplyRef.current = false;
+                interruptReply();
+            }
+
+            if (message.serverContent?.turnComplete) {
+                discardingReplyRef.current = false;
+                dispatchTranscript({ type: 'turnComplete', at });
+            }
+            
+            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (base64Audio && !discardingReplyRef.current) {
+                playerRef.current?.enqueue(base64Audio);
+            }
+        },
+        onStateChange: (state, attempt) => {
+            setConnection({ state, attempt });
+            // A turn cut off by the dropped connection will not be completed by the new one.
+            if (state === 'reconnecting') {
+                dispatchTranscript({ type: 'end', at: Date.now() });
+            }
+        },
+        onClose: (closeError) => {
+            if (closeError) {
+                setError(`The conversation ended: ${closeError.message}`);
+            }
+            stopConversation();
+        },
+    });
   };
 
   useEffect(() => {
     return () => {
+        // Switching features unmounts the component before the 'end' dispatched by
+        // stopConversation could be saved, so the turn in progress is saved here.
+        const wasActive = !!sessionRef.current;
         stopConversation();
+        if (wasActive && transcriptRef.current.current) {
+            saveTurns(applyTranscriptEvent(transcriptRef.current, { type: 'end', at: Date.now() }).turns);
+        }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Screen frames go to the session only while sharing; the effect's cleanup stops them as soon
+  // as sharing ends, whichever way it ends.
+  useEffect(() => {
+    const video = screenVideoRef.current;
+    if (!isSharing || !video || !screenStreamRef.current) return;
+    video.srcObject = screenStreamRef.current;
+    return streamFrames(video, (frame) => {
+        sessionRef.current?.send({ media: frame });
+    }, { intervalMs: SCREEN_FRAME_INTERVAL_MS, maxDimension: SCREEN_FRAME_MAX_DIMENSION });
+  }, [isSharing]);
+
+  const shareScreen = async () => {
+    setShareError('');
+    try {
+        const stream = await startScreenShare();
+        if (!stream) return;
+        // The conversation may have ended while the browser's picker was open.
+        if (!sessionRef.current) {
+            stopStream(stream);
+            return;
+        }
+        // Stopping from the browser's own "Stop sharing" bar ends the track.
+        stream.getVideoTracks()[0]?.addEventListener('ended', stopScreenShare);
+        screenStreamRef.current = stream;
+        setIsSharing(true);
+    } catch (err) {
+        setShareError((err as Error).message);
+    }
+  };
+
   return (
     <div className="flex flex-col h-full bg-gray-50 dark:bg-gray-800">
         <div className="flex-1 flex flex-col items-center justify-center p-6 space-y-8">
@@ -189,20 +267,66 @@ const LiveChat: React.FC = () => {
             <div className="text-center">
                 <p className="text-lg font-medium">{isConnecting ? 'Connecting...' : (isActive ? 'Conversation Active' : 'Tap to Start')}</p>
                 <p className="text-sm text-gray-500 dark:text-gray-400">{isActive ? 'Tap to end the conversation' : 'Allow microphone access'}</p>
+                <button
+                    onClick={() => setShowSettings(show => !show)}
+                    aria-expanded={showSettings}
+                    className="mt-2 inline-flex items-center gap-1.5 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                    <SlidersIcon className="w-4 h-4" />
+                    {personaFor(profile).name} · {profile.replyMode === 'text' ? 'Text replies' : profile.voiceName}
+                </button>
+                <LiveConnectionStatus state={connection.state} attempt={connection.attempt} className="mt-2" />
+                {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
             </div>
-            <div className="w-full max-w-2xl h-64 bg-white dark:bg-gray-700 rounded-lg p-4 overflow-y-auto shadow-inner">
-                {transcription.map((turn, index) => (
-                    <div key={index} className="mb-2">
-                        <p><strong className="text-indigo-500">You:</strong> {turn.user}</p>
-                        <p><strong className="text-green-500">ChatGPS:</strong> {turn.model}</p>
+            {showSettings && <VoiceSettings profile={profile} onChange={updateProfile} disabled={isActive || isConnecting} />}
+            {isActive && !isSharing && isScreenShareSupported() && (
+                <button
+                    onClick={shareScreen}
+                    className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+                >
+                    <MonitorIcon className="w-5 h-5" />
+                    Share Screen
+                </button>
+            )}
+            {isSharing && (
+                <div className="w-full max-w-2xl flex items-center gap-3 p-2 rounded-lg bg-red-50 dark:bg-red-900/30 border border-red-300 dark:border-red-800" role="status">
+                    <video ref={screenVideoRef} autoPlay playsInline muted className="w-32 h-20 rounded bg-black object-contain"></video>
+                    <div className="flex-1 min-w-0">
+                        <p className="flex items-center gap-2 text-sm font-medium text-red-700 dark:text-red-300">
+                            <span className="w-2 h-2 rounded-full bg-red-600 animate-pulse"></span>
+                            ChatGPS can see your screen
+                        </p>
+                        <p className="text-xs text-gray-600 dark:text-gray-400">A picture is sent every few seconds while it changes.</p>
                     </div>
-                ))}
-                { (currentInterim.user || currentInterim.model) &&
-                    <div>
-                         <p className="text-gray-500"><strong className="text-indigo-500">You:</strong> {currentInterim.user}</p>
-                         <p className="text-gray-500"><strong className="text-green-500">ChatGPS:</strong> {currentInterim.model}</p>
-                    </div>
-                }
+                    <button
+                        onClick={stopScreenShare}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md bg-red-600 text-white hover:bg-red-700"
+                    >
+                        <StopIcon className="w-4 h-4" />
+                        Stop Sharing
+                    </button>
+                </div>
+            )}
+            {shareError && <p className="text-sm text-red-500">{shareError}</p>}
+            {!isActive && !isConnecting && savedConversationId && (
+                <div className="flex flex-wrap items-center justify-center gap-2">
+                    <button
+                        onClick={() => onOpenConversation(savedConversationId)}
+                        className="px-4 py-2 text-sm font-medium rounded-md bg-indigo-600 text-white hover:bg-indigo-700"
+                    >
+                        Continue in Student Chat
+                    </button>
+                    <button
+                        onClick={startNewSession}
+                        className="px-4 py-2 text-sm font-medium rounded-md text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600"
+                    >
+                        New Session
+                    </button>
+                </div>
+            )}
+            <div className="w-full max-w-2xl h-64 bg-white dark:bg-gray-700 rounded-lg p-4 overflow-y-auto shadow-inner">
+                {transcript.turns.map((turn, index) => <TurnView key={index} turn={turn} />)}
+                {transcript.current && <TurnView turn={transcript.current} isCurrent />}
             </div>
         </div>
     </div>
@@ -0,0 +1,22 @@
+import React from 'react';
+import type { LiveConnectionState } from '../services/liveSession';
+import { LoaderIcon } from './Icons';
+
+interface LiveConnectionStatusProps {
+  state: LiveConnectionState;
+  attempt: number;
+  className?: string;
+}
+
+// Tells the student that a live session is being restored; nothing is shown while it is healthy.
+const LiveConnectionStatus: React.FC<LiveConnectionStatusProps> = ({ state, attempt, className = '' }) => {
+  if (state !== 'reconnecting') return null;
+  return (
+    <p className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300 ${className}`} role="status">
+      <LoaderIcon className="w-3.5 h-3.5 animate-spin" />
+      Connection lost, reconnecting{attempt > 1 ? ` (attempt ${attempt})` : ''}... Keep talking, nothing is lost.
+    </p>
+  );
+};
+
+export default LiveConnectionStatus;
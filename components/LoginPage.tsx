@@ -1,43 +1,96 @@
 
-import React, { useState } from 'react';
-import { GraduationCapIcon, GoogleIcon, FacebookIcon, AppleIcon } from './Icons';
+import React, { useState, useEffect } from 'react';
+import type { AuthUser } from '../types';
+import { login, register, requestPasswordReset, resetPassword } from '../services/authService';
+import { fetchOidcProviders, startOidcSignIn, OidcProvider } from '../services/oidcService';
+import { GraduationCapIcon, GoogleIcon, FacebookIcon, AppleIcon, LoaderIcon } from './Icons';
 
 interface LoginPageProps {
-  onLogin: (username: string) => void;
+  onLogin: (user: AuthUser) => void;
+  // Error from a social sign-in that failed after the provider redirected back.
+  initialError?: string;
 }
 
-// Hardcoded users for demonstration.
-// In a real application, this would be replaced with a call to an authentication service.
-const validUsers: Record<string, string> = {
-    'student': 'pass123',
-    'teacher': 'admin',
-    'demouser': 'demo',
+type Mode = 'signIn' | 'register' | 'requestReset' | 'confirmReset';
+
+const headings: Record<Mode, { title: string; subtitle: string; submit: string }> = {
+  signIn: { title: 'Welcome to ChatGPS AI', subtitle: 'Sign in to access your assistant.', submit: 'Sign In' },
+  register: { title: 'Create your account', subtitle: 'Choose a username and a password of at least 8 characters.', submit: 'Create Account' },
+  requestReset: { title: 'Reset your password', subtitle: 'Enter your username to request a reset code.', submit: 'Request Reset Code' },
+  confirmReset: { title: 'Choose a new password', subtitle: 'Enter the reset code from your administrator and a new password.', submit: 'Reset Password' },
 };
 
-const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
+const LoginPage: React.FC<LoginPageProps> = ({ onLogin, initialError = '' }) => {
+  const [mode, setMode] = useState<Mode>('signIn');
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState('');
+  const [resetCode, setResetCode] = useState('');
+  const [error, setError] = useState(initialError);
+  const [notice, setNotice] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [oidcProviders, setOidcProviders] = useState<OidcProvider[]>([]);
+
+  useEffect(() => {
+    fetchOidcProviders()
+      .then(setOidcProviders)
+      .catch(err => console.error('Failed to load sign-in providers:', err));
+  }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError('');
+    setNotice('');
+    setPassword('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!username.trim()) {
+    if (mode !== 'confirmReset' && !username.trim()) {
       setError('Please enter a username.');
       return;
     }
-    if (validUsers[username] === password) {
-        setError('');
-        onLogin(username);
-    } else {
-        setError('Invalid username or password.');
+    setError('');
+    setNotice('');
+    setIsSubmitting(true);
+    try {
+      switch (mode) {
+        case 'signIn':
+          onLogin(await login(username.trim(), password));
+          break;
+        case 'register':
+          onLogin(await register(username.trim(), password));
+          break;
+        case 'requestReset':
+          await requestPasswordReset(username.trim());
+          switchMode('confirmReset');
+          setNotice('If that account exists, a reset code has been issued. Ask your school administrator for it.');
+          break;
+        case 'confirmReset':
+          await resetPassword(resetCode.trim(), password);
+          switchMode('signIn');
+          setNotice('Your password has been reset. Please sign in.');
+          break;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
   
-  const handleSocialLogin = (user: string) => {
-    // For demo purposes, we'll log in a generic user.
-    // In a real app, this would trigger the OAuth flow.
+  const handleSocialLogin = async (providerId: string) => {
+    const provider = oidcProviders.find(p => p.id === providerId);
+    if (!provider) {
+      setError('That sign-in option is not available right now.');
+      return;
+    }
     setError('');
-    onLogin(user);
+    try {
+      await startOidcSignIn(provider);
+    } catch (err) {
+      console.error('Failed to start social sign-in:', err);
+      setError('Could not start sign-in. Please try again.');
+    }
   };
 
   return (
@@ -47,53 +100,91 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
             <div className="flex items-center justify-center mx-auto mb-4 h-16 w-16 bg-indigo-100 dark:bg-indigo-900/50 rounded-full">
                 <GraduationCapIcon className="h-10 w-10 text-indigo-500" />
             </div>
-          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Welcome to ChatGPS AI</h1>
-          <p className="mt-2 text-gray-600 dark:text-gray-400">Sign in to access your assistant.</p>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{headings[mode].title}</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">{headings[mode].subtitle}</p>
         </div>
         <form className="space-y-6" onSubmit={handleSubmit}>
           <div className="rounded-md shadow-sm -space-y-px">
-            <div>
-              <label htmlFor="username" className="sr-only">Username</label>
-              <input
-                id="username"
-                name="username"
-                type="text"
-                autoComplete="username"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white dark:bg-gray-700 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Username (e.g., student)"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-              />
-            </div>
-            <div>
-              <label htmlFor="password" className="sr-only">Password</label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete="current-password"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white dark:bg-gray-700 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Password (e.g., pass123)"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-              />
-            </div>
+            {mode === 'confirmReset' ? (
+              <div>
+                <label htmlFor="reset-code" className="sr-only">Reset code</label>
+                <input
+                  id="reset-code"
+                  name="reset-code"
+                  type="text"
+                  autoComplete="one-time-code"
+                  required
+                  className="appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white dark:bg-gray-700 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="Reset code"
+                  value={resetCode}
+                  onChange={(e) => setResetCode(e.target.value)}
+                />
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="username" className="sr-only">Username</label>
+                <input
+                  id="username"
+                  name="username"
+                  type="text"
+                  autoComplete="username"
+                  required
+                  className={`appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white dark:bg-gray-700 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm ${mode === 'requestReset' ? 'rounded-b-md' : ''}`}
+                  placeholder="Username (e.g., student)"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                />
+              </div>
+            )}
+            {mode !== 'requestReset' && (
+              <div>
+                <label htmlFor="password" className="sr-only">Password</label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+                  required
+                  className="appearance-none rounded-none relative block w-full px-3 py-3 border border-gray-300 dark:border-gray-600 placeholder-gray-500 text-gray-900 dark:text-white dark:bg-gray-700 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder={mode === 'signIn' ? 'Password (e.g., student123)' : 'New password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
           </div>
 
           {error && <p className="text-sm text-center text-red-500">{error}</p>}
+          {notice && <p className="text-sm text-center text-green-600 dark:text-green-400">{notice}</p>}
 
           <div>
             <button
               type="submit"
-              className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              disabled={isSubmitting}
+              className="group relative w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed"
             >
-              Sign In
+              {isSubmitting ? <LoaderIcon className="w-5 h-5 animate-spin" /> : headings[mode].submit}
             </button>
           </div>
         </form>
 
+        <div className="flex justify-between text-sm">
+          {mode === 'signIn' ? (
+            <>
+              <button type="button" onClick={() => switchMode('register')} className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+                Create an account
+              </button>
+              <button type="button" onClick={() => switchMode('requestReset')} className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+                Forgot password?
+              </button>
+            </>
+          ) : (
+            <button type="button" onClick={() => switchMode('signIn')} className="font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+              Back to sign in
+            </button>
+          )}
+        </div>
+
         <div className="relative">
           <div className="absolute inset-0 flex items-center" aria-hidden="true">
             <div className="w-full border-t border-gray-300 dark:border-gray-600" />
@@ -107,21 +198,21 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin }) => {
         
         <div className="space-y-3">
             <button
-                onClick={() => handleSocialLogin('demouser')}
+                onClick={() => handleSocialLogin('google')}
                 className="w-full inline-flex justify-center items-center py-2.5 px-4 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-700 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
             >
                 <GoogleIcon className="w-5 h-5 mr-3" />
                 <span>Continue with Google</span>
             </button>
             <button
-                onClick={() => handleSocialLogin('demouser')}
+                onClick={() => handleSocialLogin('facebook')}
                 className="w-full inline-flex justify-center items-center py-2.5 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-[#1877F2] hover:bg-[#166fe5] focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
             >
                 <FacebookIcon className="w-5 h-5 mr-3" />
                 <span>Continue with Facebook</span>
             </button>
             <button
-                onClick={() => handleSocialLogin('demouser')}
+                onClick={() => handleSocialLogin('apple')}
                 className="w-full inline-flex justify-center items-center py-2.5 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gray-900 hover:bg-black dark:bg-gray-200 dark:text-gray-800 dark:hover:bg-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
             >
                 <AppleIcon className="w-5 h-5 mr-3" />
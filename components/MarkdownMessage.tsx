@@ -0,0 +1,145 @@
+import React, { useMemo, useRef, useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { CopyIcon, CheckIcon } from './Icons';
+import { parseTimestamp } from '../services/videoFrames';
+
+interface MarkdownMessageProps {
+  text: string;
+  className?: string;
+  // Turns video timestamps such as 01:32 or [1:02:05] into links that call this with the seconds.
+  onSeek?: (seconds: number) => void;
+}
+
+const SEEK_LINK_PREFIX = '#t=';
+
+// Applies `transform` to the text outside fenced code blocks and inline code spans (`x` or
+// ``x``), which are left untouched.
+const outsideCodeBlocks = (text: string, transform: (segment: string) => string): string =>
+  text
+    .split(/(```[\s\S]*?(?:```|$)|``[\s\S]+?``|`[^`]+`)/g)
+    .map((segment) => (segment.startsWith('`') ? segment : transform(segment)))
+    .join('');
+
+// Models often use \( \) and \[ \] for math, but remark-math only understands dollar delimiters.
+// Code, fenced or inline, keeps its backslashes.
+const normalizeMathDelimiters = (text: string): string =>
+  outsideCodeBlocks(text, (segment) =>
+    segment
+      .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `$$${math}$$`)
+      .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$${math}$`)
+  );
+
+const linkTimestamps = (text: string): string =>
+  outsideCodeBlocks(text, (segment) =>
+    segment.replace(/(?<![\w:.[])\[?((?:\d{1,2}:)?\d{1,2}:\d{2})(?!\]?\()\]?(?![\w:(])/g, (match, stamp: string) => {
+      const seconds = parseTimestamp(stamp);
+      return seconds === null ? match : `[${stamp}](${SEEK_LINK_PREFIX}${seconds})`;
+    })
+  );
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  return (
+    <div className="relative group my-3">
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute top-2 right-2 flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-gray-700 text-gray-200 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+        aria-label="Copy code"
+      >
+        {copied ? <CheckIcon className="w-3.5 h-3.5" /> : <CopyIcon className="w-3.5 h-3.5" />}
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+      <pre ref={preRef} {...props} className="overflow-x-auto rounded-lg bg-gray-900 text-gray-100 p-4 text-sm">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ node, ...props }) => <CodeBlock {...props} />,
+  code: ({ node, className, ...props }) => (
+    <code className={className ?? 'px-1 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-sm'} {...props} />
+  ),
+  a: ({ node, ...props }) => (
+    <a {...props} target="_blank" rel="noopener noreferrer" className="text-indigo-500 underline hover:text-indigo-600" />
+  ),
+  p: ({ node, ...props }) => <p className="my-2 first:mt-0 last:mb-0" {...props} />,
+  ul: ({ node, ...props }) => <ul className="list-disc pl-6 my-2 space-y-1" {...props} />,
+  ol: ({ node, ...props }) => <ol className="list-decimal pl-6 my-2 space-y-1" {...props} />,
+  h1: ({ node, ...props }) => <h1 className="text-xl font-bold mt-4 mb-2" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="text-lg font-bold mt-4 mb-2" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="text-base font-semibold mt-3 mb-1" {...props} />,
+  blockquote: ({ node, ...props }) => (
+    <blockquote className="border-l-4 border-gray-300 dark:border-gray-500 pl-3 my-2 italic" {...props} />
+  ),
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto my-3">
+      <table className="min-w-full text-sm border-collapse" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => (
+    <th className="border border-gray-300 dark:border-gray-600 px-3 py-1.5 bg-gray-100 dark:bg-gray-800 font-semibold text-left" {...props} />
+  ),
+  td: ({ node, ...props }) => <td className="border border-gray-300 dark:border-gray-600 px-3 py-1.5" {...props} />,
+};
+
+// Renders model output as Markdown with GFM tables, KaTeX math and highlighted code.
+// Raw HTML in the source is dropped (skipHtml) and react-markdown's default URL transform
+// strips javascript: and other unsafe link targets, so model output cannot inject script.
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ text, className, onSeek }) => {
+  const renderers = useMemo<Components>(() => {
+    if (!onSeek) return components;
+    const Link = components.a as React.FC<React.ComponentProps<'a'> & { node?: unknown }>;
+    return {
+      ...components,
+      a: ({ node, href, ...props }) =>
+        href?.startsWith(SEEK_LINK_PREFIX) ? (
+          <a
+            {...props}
+            href={href}
+            onClick={(e) => {
+              e.preventDefault();
+              onSeek(Number(href.slice(SEEK_LINK_PREFIX.length)));
+            }}
+            className="font-mono text-indigo-500 underline hover:text-indigo-600"
+            title="Jump to this moment in the video"
+          />
+        ) : (
+          <Link href={href} {...props} />
+        ),
+    };
+  }, [onSeek]);
+
+  return (
+    <div className={`break-words ${className ?? ''}`}>
+      <ReactMarkdown
+        skipHtml
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: true }]]}
+        components={renderers}
+      >
+        {normalizeMathDelimiters(onSeek ? linkTimestamps(text) : text)}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownMessage;
@@ -1,111 +1,277 @@
-import React, { useState, useRef } from 'react';
-import { generateTextAndImage, generateTextAndVideo } from '../services/geminiService';
-import { LoaderIcon } from './Icons';
-
-// Helper function to convert a file to a base64 string
-const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve((reader.result as string).split(',')[1]);
-        reader.onerror = (error) => reject(error);
-    });
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import type { ChatMessage } from '../types';
+import { aiProvider, AnalysisFile } from '../services/aiProvider';
+import { recordUsage } from '../services/classroomService';
+import { messageText, toHistory } from '../services/conversationStore';
+import { sampleFrames, plannedFrameCount, formatTimestamp, DEFAULT_SAMPLING_OPTIONS, FRAME_SIZE_OPTIONS, MAX_FRAMES, FrameSamplingOptions } from '../services/videoFrames';
+import { isPdfFile, isTextFile, readPdfDocument, readTextDocument, MAX_PDF_PAGES } from '../services/documentFiles';
+import { prepareImage, validateFileSize, inlineBytes, formatBytes, ANALYSIS_IMAGE_OPTIONS, MAX_FILE_BYTES, MAX_REQUEST_BYTES } from '../services/mediaPreprocessing';
+import { isCameraSupported } from '../services/cameraCapture';
+import MarkdownMessage from './MarkdownMessage';
+import CameraCapture from './CameraCapture';
+import LiveCamera from './LiveCamera';
+import { LoaderIcon, SendIcon, FileTextIcon, XIcon, CameraIcon, MicIcon } from './Icons';
+
+const MAX_FILES = 10;
+const ACCEPTED_TYPES = 'image/*,video/*,application/pdf,text/plain,.txt,.md,.csv';
+const CAMERA_BUTTON_CLASS = 'inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50';
+
+interface SelectedFile {
+    file: File;
+    kind: AnalysisFile['kind'];
+    previewUrl: string;
+}
+
+// A file in the form sent to the model, prepared once and reused for every question. Video frames
+// are resampled only when a new analysis uses different sampling options.
+interface PreparedFile {
+    prepared: AnalysisFile;
+    sampling?: FrameSamplingOptions;
+}
+
+// The size limit that applies to a file of this kind.
+const sizeLimitFor = (file: File, kind: AnalysisFile['kind']) => (kind === 'document' ? (isPdfFile(file) ? 'pdf' : 'text') : kind);
+
+const fileKind = (file: File): AnalysisFile['kind'] | null => {
+    if (file.type.startsWith('image/')) return 'image';
+    if (file.type.startsWith('video/')) return 'video';
+    return isPdfFile(file) || isTextFile(file) ? 'document' : null;
+};
+
+// Frames are sampled from a detached copy so the visible preview is not seeked around.
+const sampleVideo = async (url: string, sampling: FrameSamplingOptions, onProgress: (fraction: number) => void) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = url;
+    try {
+        return await sampleFrames(video, sampling, onProgress);
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+    }
 };
 
+// Questions and answers about one set of uploads form a conversation: each follow-up is sent with
+// the earlier turns and the same files, so students can refer back to what was already discussed.
 const MediaAnalyzer: React.FC = () => {
-    const [file, setFile] = useState<File | null>(null);
+    const [files, setFiles] = useState<SelectedFile[]>([]);
     const [prompt, setPrompt] = useState('');
-    const [result, setResult] = useState('');
+    const [followUp, setFollowUp] = useState('');
+    const [turns, setTurns] = useState<ChatMessage[]>([]);
+    const [pendingQuestion, setPendingQuestion] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
-    const [filePreview, setFilePreview] = useState<string | null>(null);
+    const [sampling, setSampling] = useState<FrameSamplingOptions>(DEFAULT_SAMPLING_OPTIONS);
+    const [durations, setDurations] = useState<Record<string, number>>({});
+    // Preparation progress (0 to 1) and a short result note per file, keyed by preview URL.
+    const [progress, setProgress] = useState<Record<string, number>>({});
+    const [notes, setNotes] = useState<Record<string, string>>({});
+    // Photos taken with the camera are added like uploads; the live camera is a separate voice session.
+    const [cameraMode, setCameraMode] = useState<'photo' | 'live' | null>(null);
+
+    // Preparation is started once per file and shared by every question that needs it.
+    const preparedRef = useRef(new Map<File, Promise<PreparedFile>>());
+    const videoRefs = useRef(new Map<string, HTMLVideoElement>());
+    const turnsEndRef = useRef<HTMLDivElement>(null);
 
-    const videoRef = useRef<HTMLVideoElement>(null);
-    const canvasRef = useRef<HTMLCanvasElement>(null);
+    useEffect(() => {
+        turnsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [turns, pendingQuestion]);
+
+    const videos = files.filter(f => f.kind === 'video');
+    const preparing = files.find(f => progress[f.previewUrl] !== undefined);
+    // Timestamps in answers are only unambiguous with a single video.
+    const seekableUrl = videos.length === 1 ? videos[0].previewUrl : null;
+
+    // Changing the files starts a new analysis.
+    const resetAnalysis = () => {
+        setTurns([]);
+        setError('');
+    };
+
+    const addFiles = (chosen: File[]) => {
+        resetAnalysis();
+        const problems: string[] = [];
+        const accepted: SelectedFile[] = [];
+        for (const file of chosen) {
+            const kind = fileKind(file);
+            if (!kind) {
+                problems.push(`"${file.name}" is not an image, video, PDF or text file.`);
+                continue;
+            }
+            try {
+                validateFileSize(file, sizeLimitFor(file, kind));
+            } catch (err) {
+                problems.push((err as Error).message);
+                continue;
+            }
+            if (files.length + accepted.length >= MAX_FILES) {
+                problems.push(`You can analyze up to ${MAX_FILES} files at once.`);
+                break;
+            }
+            accepted.push({ file, kind, previewUrl: URL.createObjectURL(file) });
+        }
+        setError(problems.join(' '));
+        setFiles(prev => [...prev, ...accepted]);
+        // Images are shrunk straight away, one at a time, so the student sees the result before asking.
+        accepted
+            .filter(selected => selected.kind === 'image')
+            .reduce((previous, selected) => previous.then(() => getPrepared(selected, false).then(() => undefined, (err: Error) => setError(err.message))), Promise.resolve());
+    };
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const selectedFile = e.target.files?.[0];
-        if (selectedFile) {
-            setFile(selectedFile);
-            setResult('');
-            setError('');
-            const previewUrl = URL.createObjectURL(selectedFile);
-            setFilePreview(previewUrl);
+        const chosen = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        if (chosen.length > 0) addFiles(chosen);
+    };
+
+    const handlePhoto = (file: File) => {
+        setCameraMode(null);
+        addFiles([file]);
+    };
+
+    const removeFile = (index: number) => {
+        const removed = files[index];
+        URL.revokeObjectURL(removed.previewUrl);
+        preparedRef.current.delete(removed.file);
+        setNotes(({ [removed.previewUrl]: _, ...rest }) => rest);
+        resetAnalysis();
+        setFiles(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const mentionFile = (name: string) => {
+        setPrompt(prev => `${prev}${prev && !/\s$/.test(prev) ? ' ' : ''}"${name}" `);
+    };
+
+    const prepareFile = async ({ file, kind, previewUrl }: SelectedFile): Promise<PreparedFile> => {
+        const onProgress = (fraction: number) => setProgress(prev => ({ ...prev, [previewUrl]: fraction }));
+        const note = (text: string) => setNotes(prev => ({ ...prev, [previewUrl]: text }));
+        onProgress(0);
+        try {
+            switch (kind) {
+                case 'image': {
+                    const { image, width, height, originalBytes, bytes } = await prepareImage(file, ANALYSIS_IMAGE_OPTIONS, onProgress);
+                    note(`${formatBytes(originalBytes)} → ${formatBytes(bytes)}, ${width}×${height}, metadata removed`);
+                    return { prepared: { name: file.name, kind, image } };
+                }
+                case 'video': {
+                    const frames = await sampleVideo(previewUrl, sampling, onProgress);
+                    if (frames.length === 0) {
+                        throw new Error('no frames could be captured');
+                    }
+                    note(`${frames.length} frames sampled`);
+                    return { prepared: { name: file.name, kind, frames }, sampling };
+                }
+                case 'document': {
+                    const content = isPdfFile(file) ? await readPdfDocument(file, onProgress) : await readTextDocument(file);
+                    note(content.pageCount ? `${content.pages.length} of ${content.pageCount} pages` : `${content.text.length.toLocaleString()} characters`);
+                    return { prepared: { name: file.name, kind, ...content } };
+                }
+            }
+        } catch (err) {
+            const message = (err as Error).message;
+            // Image errors already name the file.
+            throw new Error(message.includes(`"${file.name}"`) ? message : `Could not read "${file.name}": ${message}`);
+        } finally {
+            setProgress(({ [previewUrl]: _, ...rest }) => rest);
         }
     };
 
-    const handleAnalyze = async () => {
-        if (!file || !prompt.trim()) {
-            setError('Please upload a file and enter a prompt.');
-            return;
+    // A failed preparation is forgotten so the next question tries again; a new analysis also
+    // resamples videos whose sampling options have changed since.
+    const getPrepared = async (selected: SelectedFile, newAnalysis: boolean): Promise<AnalysisFile> => {
+        const cached = preparedRef.current.get(selected.file);
+        if (cached) {
+            try {
+                const entry = await cached;
+                if (!(newAnalysis && entry.sampling && entry.sampling !== sampling)) {
+                    return entry.prepared;
+                }
+            } catch {
+                // Prepared again below.
+            }
+        }
+        const pending = prepareFile(selected);
+        preparedRef.current.set(selected.file, pending);
+        pending.catch(() => {
+            if (preparedRef.current.get(selected.file) === pending) preparedRef.current.delete(selected.file);
+        });
+        return (await pending).prepared;
+    };
+
+    const prepareFiles = async (newAnalysis: boolean): Promise<AnalysisFile[]> => {
+        const prepared: AnalysisFile[] = [];
+        for (const selected of files) {
+            prepared.push(await getPrepared(selected, newAnalysis));
+        }
+        const total = inlineBytes(prepared);
+        if (total > MAX_REQUEST_BYTES) {
+            throw new Error(`These files add up to ${formatBytes(total)} after processing, more than the ${formatBytes(MAX_REQUEST_BYTES)} that can be sent at once. Remove a file or sample fewer or smaller video frames.`);
         }
+        return prepared;
+    };
+
+    const seekVideo = useCallback((seconds: number) => {
+        const video = seekableUrl ? videoRefs.current.get(seekableUrl) : undefined;
+        if (!video) return;
+        video.currentTime = seconds;
+        video.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [seekableUrl]);
+
+    const updateSampling = (changes: Partial<FrameSamplingOptions>) => {
+        setSampling(prev => ({ ...prev, ...changes }));
+    };
+
+    // `history` is the conversation so far; starting a new analysis passes an empty one.
+    // Resolves to whether the question was answered.
+    const ask = async (question: string, history: ChatMessage[]): Promise<boolean> => {
+        if (files.length === 0) return false;
 
         setIsLoading(true);
         setError('');
-        setResult('');
+        setTurns(history);
+        setPendingQuestion(question);
+        recordUsage('media');
 
         try {
-            if (file.type.startsWith('image/')) {
-                const base64Data = await fileToBase64(file);
-                const response = await generateTextAndImage(prompt, { mimeType: file.type, data: base64Data });
-                setResult(response.text);
-            } else if (file.type.startsWith('video/')) {
-                await analyzeVideo();
-            } else {
-                setError('Unsupported file type. Please upload an image or video.');
+            let prepared: AnalysisFile[];
+            try {
+                prepared = await prepareFiles(history.length === 0);
+            } catch (err) {
+                setError((err as Error).message);
+                return false;
             }
+            const text = await aiProvider.generateTextAndFiles(question, prepared, toHistory(history));
+            setTurns([...history, { role: 'user', parts: [{ text: question }] }, { role: 'model', parts: [{ text }] }]);
+            return true;
         } catch (err) {
             console.error('Analysis error:', err);
             setError('An error occurred during analysis. Please try again.');
+            return false;
         } finally {
+            setPendingQuestion('');
             setIsLoading(false);
         }
     };
 
-    const analyzeVideo = async () => {
-        const video = videoRef.current;
-        const canvas = canvasRef.current;
-        if (!video || !canvas || !filePreview) return;
-
-        video.src = filePreview;
-        
-        video.onloadeddata = async () => {
-            const duration = video.duration;
-            const framesToCapture = 10;
-            const interval = duration / framesToCapture;
-            const capturedFrames: { mimeType: string; data: string }[] = [];
-            
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                setError("Could not get canvas context.");
-                return;
-            }
-
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-
-            for (let i = 0; i < framesToCapture; i++) {
-                video.currentTime = i * interval;
-                await new Promise<void>(resolve => {
-                    video.onseeked = () => {
-                        ctx.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-                        const dataUrl = canvas.toDataURL('image/jpeg');
-                        capturedFrames.push({
-                            mimeType: 'image/jpeg',
-                            data: dataUrl.split(',')[1],
-                        });
-                        resolve();
-                    };
-                });
-            }
+    const handleAnalyze = async () => {
+        if (files.length === 0 || !prompt.trim()) {
+            setError('Please upload a file and enter a prompt.');
+            return;
+        }
+        await ask(prompt, []);
+    };
 
-            if (capturedFrames.length > 0) {
-                 const response = await generateTextAndVideo(prompt, capturedFrames);
-                 setResult(response.text);
-            } else {
-                setError("Could not capture any frames from the video.");
-            }
-        };
+    const handleFollowUp = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!followUp.trim() || isLoading) return;
+        const question = followUp;
+        setFollowUp('');
+        // Give the question back if it failed, so it does not have to be retyped.
+        if (!await ask(question, turns)) {
+            setFollowUp(question);
+        }
     };
 
     return (
@@ -116,40 +282,163 @@ const MediaAnalyzer: React.FC = () => {
                     <div className="bg-white dark:bg-gray-700 p-6 rounded-lg shadow-sm">
                         <div className="space-y-4">
                              <div>
-                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Upload File</label>
-                                <div className="mt-2">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Upload Files</label>
+                                <div className="mt-2 flex flex-wrap items-center gap-2">
                                     <input
                                         type="file"
                                         id="file-upload"
                                         name="file-upload"
                                         className="sr-only"
-                                        accept="image/*,video/*"
+                                        accept={ACCEPTED_TYPES}
+                                        multiple
                                         onChange={handleFileChange}
+                                        disabled={isLoading || files.length >= MAX_FILES}
                                     />
                                     <label
                                         htmlFor="file-upload"
                                         className="cursor-pointer inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
                                     >
                                         <span className="material-symbols-outlined mr-2 -ml-1 h-5 w-5">upload_file</span>
-                                        Choose File
+                                        {files.length > 0 ? 'Add Files' : 'Choose Files'}
                                     </label>
+                                    {isCameraSupported() && (
+                                        <>
+                                            <button
+                                                type="button"
+                                                onClick={() => setCameraMode(cameraMode === 'photo' ? null : 'photo')}
+                                                disabled={isLoading || files.length >= MAX_FILES}
+                                                className={`${CAMERA_BUTTON_CLASS} ${cameraMode === 'photo' ? 'ring-2 ring-indigo-500' : ''}`}
+                                            >
+                                                <CameraIcon className="w-5 h-5 mr-2 -ml-1" />
+                                                Take Photo
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => setCameraMode(cameraMode === 'live' ? null : 'live')}
+                                                className={`${CAMERA_BUTTON_CLASS} ${cameraMode === 'live' ? 'ring-2 ring-indigo-500' : ''}`}
+                                            >
+                                                <MicIcon className="w-5 h-5 mr-2 -ml-1" />
+                                                Live Camera
+                                            </button>
+                                        </>
+                                    )}
                                 </div>
-                                {file && (
-                                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
-                                        Selected: <span className="font-medium">{file.name}</span>
-                                    </p>
-                                )}
                                 <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                                    PNG, JPG, GIF, MP4 up to 50MB
+                                    Up to {MAX_FILES} files: images ({formatBytes(MAX_FILE_BYTES.image)}), videos ({formatBytes(MAX_FILE_BYTES.video)}), PDFs ({formatBytes(MAX_FILE_BYTES.pdf)}, first {MAX_PDF_PAGES} pages) and text files ({formatBytes(MAX_FILE_BYTES.text)}). Photos are resized and their location data removed before upload.
                                 </p>
                             </div>
-                            {filePreview && (
-                                <div className="border rounded-lg overflow-hidden">
-                                    {file?.type.startsWith('image/') && <img src={filePreview} alt="Preview" className="w-full h-auto object-contain max-h-64" />}
-                                    {file?.type.startsWith('video/') && <video ref={videoRef} src={filePreview} controls className="w-full h-auto max-h-64"></video>}
+                            {cameraMode === 'photo' && <CameraCapture onCapture={handlePhoto} onClose={() => setCameraMode(null)} />}
+                            {cameraMode === 'live' && <LiveCamera onClose={() => setCameraMode(null)} />}
+                            {files.length > 0 && (
+                                <div className="space-y-2">
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">Click a file name to mention it in your question.</p>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        {files.map(({ file, kind, previewUrl }, index) => (
+                                            <div key={previewUrl} className="relative border border-gray-200 dark:border-gray-600 rounded-lg overflow-hidden">
+                                                {kind === 'image' && <img src={previewUrl} alt={file.name} className="w-full h-28 object-contain bg-gray-100 dark:bg-gray-800" />}
+                                                {kind === 'video' && (
+                                                    <video
+                                                        ref={element => {
+                                                            if (element) videoRefs.current.set(previewUrl, element);
+                                                            else videoRefs.current.delete(previewUrl);
+                                                        }}
+                                                        src={previewUrl}
+                                                        controls
+                                                        onLoadedMetadata={e => {
+                                                            const { duration } = e.currentTarget;
+                                                            setDurations(prev => ({ ...prev, [previewUrl]: duration }));
+                                                        }}
+                                                        className="w-full h-28 bg-black"
+                                                    ></video>
+                                                )}
+                                                {kind === 'document' && (
+                                                    <div className="h-28 flex flex-col items-center justify-center gap-1 bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400">
+                                                        <FileTextIcon className="w-8 h-8 text-indigo-500" />
+                                                        <span className="text-xs">{isPdfFile(file) ? 'PDF' : 'Text'}</span>
+                                                    </div>
+                                                )}
+                                                <button
+                                                    type="button"
+                                                    onClick={() => mentionFile(file.name)}
+                                                    className="block w-full px-2 py-1 text-left text-xs font-medium truncate text-gray-700 dark:text-gray-200 hover:text-indigo-500"
+                                                    title={`Mention "${file.name}" in your question`}
+                                                >
+                                                    {file.name}
+                                                    {progress[previewUrl] !== undefined ? (
+                                                        <span className="block font-normal text-indigo-500">Processing... {Math.round(progress[previewUrl] * 100)}%</span>
+                                                    ) : notes[previewUrl] && (
+                                                        <span className="block font-normal text-gray-500 dark:text-gray-400 truncate">{notes[previewUrl]}</span>
+                                                    )}
+                                                    {kind === 'video' && Number.isFinite(durations[previewUrl]) && (
+                                                        <span className="block font-normal text-gray-500 dark:text-gray-400">
+                                                            {formatTimestamp(durations[previewUrl])}, {sampling.detectSceneChanges ? 'up to ' : ''}{plannedFrameCount(durations[previewUrl], sampling)} frames
+                                                        </span>
+                                                    )}
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => removeFile(index)}
+                                                    disabled={isLoading}
+                                                    className="absolute top-1 right-1 p-0.5 rounded-full bg-gray-700/80 text-white hover:bg-gray-900 disabled:opacity-50"
+                                                    aria-label={`Remove ${file.name}`}
+                                                >
+                                                    <XIcon className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
                                 </div>
                             )}
-                             <canvas ref={canvasRef} className="hidden"></canvas>
+                            {videos.length > 0 && (
+                                <fieldset className="space-y-3 p-3 rounded-lg border border-gray-200 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300" disabled={isLoading}>
+                                    <legend className="px-1 text-xs font-medium text-gray-600 dark:text-gray-400">Frame sampling</legend>
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <select
+                                            value={sampling.mode}
+                                            onChange={e => updateSampling({ mode: e.target.value as FrameSamplingOptions['mode'] })}
+                                            className="p-1.5 rounded-md bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600"
+                                        >
+                                            <option value="count">Number of frames</option>
+                                            <option value="fps">Frames per second</option>
+                                        </select>
+                                        {sampling.mode === 'count' ? (
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={MAX_FRAMES}
+                                                value={sampling.frameCount}
+                                                onChange={e => updateSampling({ frameCount: Math.max(1, Math.min(MAX_FRAMES, Number(e.target.value) || 1)) })}
+                                                className="w-20 p-1.5 rounded-md bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600"
+                                                aria-label="Number of frames"
+                                            />
+                                        ) : (
+                                            <input
+                                                type="number"
+                                                min={0.05}
+                                                max={10}
+                                                step={0.05}
+                                                value={sampling.fps}
+                                                onChange={e => updateSampling({ fps: Math.max(0.05, Math.min(10, Number(e.target.value) || 0.05)) })}
+                                                className="w-20 p-1.5 rounded-md bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600"
+                                                aria-label="Frames per second"
+                                            />
+                                        )}
+                                        <select
+                                            value={sampling.maxDimension}
+                                            onChange={e => updateSampling({ maxDimension: Number(e.target.value) })}
+                                            className="p-1.5 rounded-md bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600"
+                                            aria-label="Frame size"
+                                        >
+                                            {FRAME_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size} px</option>)}
+                                        </select>
+                                    </div>
+                                    <label className="flex items-center gap-2">
+                                        <input type="checkbox" checked={sampling.detectSceneChanges} onChange={e => updateSampling({ detectSceneChanges: e.target.checked })} />
+                                        Only keep frames where the picture changes (good for slides)
+                                    </label>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">At most {MAX_FRAMES} frames per video.</p>
+                                </fieldset>
+                            )}
                             <div>
                                 <label htmlFor="prompt" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Your Question</label>
                                 <textarea
@@ -158,28 +447,62 @@ const MediaAnalyzer: React.FC = () => {
                                     className="mt-1 block w-full rounded-md bg-gray-100 dark:bg-gray-800 border-gray-300 dark:border-gray-600 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2"
                                     value={prompt}
                                     onChange={(e) => setPrompt(e.target.value)}
-                                    placeholder="e.g., What is happening in this image? or Summarize this video."
+                                    placeholder={files.length > 1 ? 'e.g., Compare "diagram-1.png" with "diagram-2.png".' : 'e.g., What is happening in this image? or Summarize this video.'}
                                 />
                             </div>
                             <button
                                 onClick={handleAnalyze}
-                                disabled={isLoading || !file || !prompt}
+                                disabled={isLoading || files.length === 0 || !prompt}
                                 className="w-full flex justify-center py-3 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400 disabled:cursor-not-allowed"
                             >
-                                {isLoading ? <LoaderIcon className="w-5 h-5 animate-spin" /> : 'Analyze'}
+                                {isLoading ? <LoaderIcon className="w-5 h-5 animate-spin" /> : turns.length > 0 ? 'Start a New Analysis' : 'Analyze'}
                             </button>
                         </div>
                     </div>
 
-                    {/* Output Section */}
-                    <div className="bg-white dark:bg-gray-700 p-6 rounded-lg shadow-sm">
-                        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Analysis Result</h3>
-                        <div className="mt-4 prose prose-sm dark:prose-invert max-w-none text-gray-700 dark:text-gray-300 h-full overflow-y-auto">
-                            {isLoading && <p>Analyzing, please wait... This might take a moment for videos.</p>}
+                    {/* Conversation Section */}
+                    <div className="bg-white dark:bg-gray-700 p-6 rounded-lg shadow-sm flex flex-col min-h-[24rem]">
+                        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Analysis</h3>
+                        <div className="mt-4 flex-1 space-y-4 overflow-y-auto text-sm text-gray-700 dark:text-gray-300">
+                            {turns.map((turn, index) => turn.role === 'user' ? (
+                                <p key={index} className="ml-auto max-w-[85%] w-fit p-3 rounded-2xl rounded-br-none bg-indigo-500 text-white whitespace-pre-wrap">{messageText(turn)}</p>
+                            ) : (
+                                <div key={index} className="prose prose-sm dark:prose-invert max-w-none">
+                                    <MarkdownMessage text={messageText(turn)} onSeek={seekableUrl ? seekVideo : undefined} />
+                                </div>
+                            ))}
+                            {pendingQuestion && (
+                                <>
+                                    <p className="ml-auto max-w-[85%] w-fit p-3 rounded-2xl rounded-br-none bg-indigo-500 text-white whitespace-pre-wrap">{pendingQuestion}</p>
+                                    <p>
+                                        {preparing
+                                            ? `Preparing "${preparing.file.name}"... ${Math.round(progress[preparing.previewUrl] * 100)}%`
+                                            : 'Analyzing, please wait... This might take a moment for videos.'}
+                                    </p>
+                                </>
+                            )}
                             {error && <p className="text-red-500">{error}</p>}
-                            {result && <p className="whitespace-pre-wrap">{result}</p>}
-                            {!result && !isLoading && !error && <p>Your analysis result will appear here.</p>}
+                            {turns.length === 0 && !isLoading && !error && <p>Your analysis result will appear here. You can then ask follow-up questions about the same files.</p>}
+                            <div ref={turnsEndRef} />
                         </div>
+                        <form onSubmit={handleFollowUp} className="mt-4 flex items-center gap-2">
+                            <input
+                                type="text"
+                                value={followUp}
+                                onChange={(e) => setFollowUp(e.target.value)}
+                                placeholder={turns.length > 0 ? 'Ask a follow-up, e.g. "What about the second graph?"' : 'Analyze a file first'}
+                                className="flex-1 p-2 rounded-md bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                disabled={isLoading || turns.length === 0}
+                            />
+                            <button
+                                type="submit"
+                                className="p-2 bg-indigo-500 text-white rounded-md disabled:bg-indigo-300 hover:bg-indigo-600 transition-colors"
+                                disabled={isLoading || turns.length === 0 || !followUp.trim()}
+                                aria-label="Send follow-up question"
+                            >
+                                <SendIcon className="w-5 h-5" />
+                            </button>
+                        </form>
                     </div>
                 </div>
             </div>
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import type { StepSolution } from '../types';
+import MarkdownMessage from './MarkdownMessage';
+
+interface StepByStepSolutionProps {
+  solution: StepSolution;
+}
+
+// Reveals a structured solution one step at a time so students can try each step first.
+// Clicking a revealed step shows or hides why it works.
+const StepByStepSolution: React.FC<StepByStepSolutionProps> = ({ solution }) => {
+  const [revealedCount, setRevealedCount] = useState(1);
+  const [isAnswerShown, setIsAnswerShown] = useState(false);
+  const [openSteps, setOpenSteps] = useState<Set<number>>(() => new Set([0]));
+
+  const { problem, steps, finalAnswer } = solution;
+  const allStepsShown = revealedCount >= steps.length;
+
+  const toggleStep = (index: number) => {
+    setOpenSteps(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const revealNext = () => {
+    setOpenSteps(prev => new Set(prev).add(revealedCount));
+    setRevealedCount(count => count + 1);
+  };
+
+  const revealAll = () => {
+    setRevealedCount(steps.length);
+    setIsAnswerShown(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm">
+        <span className="font-semibold">Problem: </span>
+        <MarkdownMessage text={problem} className="inline-block" />
+      </div>
+      <ol className="space-y-2">
+        {steps.slice(0, revealedCount).map((step, index) => (
+          <li key={index} className="border border-gray-200 dark:border-gray-600 rounded-lg">
+            <button
+              onClick={() => toggleStep(index)}
+              className="w-full flex items-start gap-3 p-2 text-left hover:bg-gray-50 dark:hover:bg-gray-600/40 rounded-lg"
+              aria-expanded={openSteps.has(index)}
+            >
+              <span className="flex-shrink-0 w-6 h-6 rounded-full bg-indigo-500 text-white text-xs font-semibold flex items-center justify-center">{index + 1}</span>
+              <span className="min-w-0 flex-1"><MarkdownMessage text={step.expression} /></span>
+              <span className="text-xs text-gray-500 dark:text-gray-400 mt-1">{openSteps.has(index) ? 'Hide why' : 'Why?'}</span>
+            </button>
+            {openSteps.has(index) && (
+              <div className="px-11 pb-2 text-sm text-gray-600 dark:text-gray-300">
+                <MarkdownMessage text={step.justification} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+      {isAnswerShown ? (
+        <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800">
+          <span className="text-sm font-semibold">Final answer: </span>
+          <MarkdownMessage text={finalAnswer} className="inline-block" />
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          {allStepsShown ? (
+            <button onClick={() => setIsAnswerShown(true)} className="px-3 py-1.5 text-xs font-medium rounded-lg bg-indigo-500 text-white hover:bg-indigo-600">
+              Show Final Answer
+            </button>
+          ) : (
+            <button onClick={revealNext} className="px-3 py-1.5 text-xs font-medium rounded-lg bg-indigo-500 text-white hover:bg-indigo-600">
+              Show Step {revealedCount + 1} of {steps.length}
+            </button>
+          )}
+          <button onClick={revealAll} className="px-3 py-1.5 text-xs font-medium rounded-lg text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500">
+            Show Everything
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StepByStepSolution;
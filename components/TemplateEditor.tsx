@@ -0,0 +1,370 @@
+import React, { useState, useRef } from 'react';
+import {
+  TemplateRegistry, SubjectTemplate, TaskTemplate, PairTemplate, ModelPreference, OutputFormat,
+  DEFAULT_TEMPLATE_REGISTRY, MODEL_PREFERENCES, OUTPUT_FORMATS,
+  parseTemplateRegistry, resolveTemplate, renderPrompt, saveTemplateRegistry,
+} from '../services/templateRegistry';
+import { LoaderIcon, PlusIcon, TrashIcon } from './Icons';
+
+interface TemplateEditorProps {
+  registry: TemplateRegistry;
+  onSaved: (registry: TemplateRegistry) => void;
+}
+
+type Selection = { kind: 'subject' | 'task' | 'pair'; index: number } | null;
+
+const MODEL_LABELS: Record<ModelPreference, string> = { any: "Student's choice", standard: 'Standard', lite: 'Fast (Flash Lite)' };
+const FORMAT_LABELS: Record<OutputFormat, string> = { markdown: 'Markdown', plain: 'Plain text', steps: 'Step-by-step solution' };
+
+const inputClass = 'w-full p-2 rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1';
+
+const uniqueName = (base: string, taken: string[]) => {
+  let name = base;
+  for (let n = 2; taken.includes(name); n++) name = `${base} ${n}`;
+  return name;
+};
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ registry, onSaved }) => {
+  const [draft, setDraft] = useState<TemplateRegistry>(registry);
+  const [selection, setSelection] = useState<Selection>({ kind: 'subject', index: 0 });
+  const [previewSubject, setPreviewSubject] = useState(registry.subjects[0]?.name ?? '');
+  const [previewTask, setPreviewTask] = useState(registry.tasks[0]?.name ?? '');
+  const [previewInput, setPreviewInput] = useState('Solve 2x + 3 = 11');
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState('');
+  const [importError, setImportError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  let validationError = '';
+  try {
+    parseTemplateRegistry(draft);
+  } catch (error) {
+    validationError = (error as Error).message;
+  }
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(registry);
+
+  const update = (changes: Partial<TemplateRegistry>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setStatus('');
+  };
+
+  const updateSubject = (index: number, changes: Partial<SubjectTemplate>) => {
+    const previousName = draft.subjects[index].name;
+    update({
+      subjects: draft.subjects.map((s, i) => (i === index ? { ...s, ...changes } : s)),
+      // Keep combinations attached to a subject when it is renamed.
+      pairs: changes.name === undefined ? draft.pairs : draft.pairs.map(p => (p.subject === previousName ? { ...p, subject: changes.name! } : p)),
+    });
+  };
+
+  const updateTask = (index: number, changes: Partial<TaskTemplate>) => {
+    const previousName = draft.tasks[index].name;
+    update({
+      tasks: draft.tasks.map((t, i) => (i === index ? { ...t, ...changes } : t)),
+      pairs: changes.name === undefined ? draft.pairs : draft.pairs.map(p => (p.task === previousName ? { ...p, task: changes.name! } : p)),
+    });
+  };
+
+  // Empty values are removed so the combination falls back to the task's own setting.
+  const updatePair = (index: number, field: keyof PairTemplate, value: string) => {
+    update({
+      pairs: draft.pairs.map((p, i) => {
+        if (i !== index) return p;
+        const next = { ...p };
+        if (value === '' && field !== 'subject' && field !== 'task') {
+          delete next[field];
+        } else {
+          (next as Record<string, string>)[field] = value;
+        }
+        return next;
+      }),
+    });
+  };
+
+  const addItem = (kind: 'subject' | 'task' | 'pair') => {
+    if (kind === 'subject') {
+      const name = uniqueName('New Subject', draft.subjects.map(s => s.name));
+      update({ subjects: [...draft.subjects, { name, systemInstruction: '' }] });
+      setSelection({ kind, index: draft.subjects.length });
+    } else if (kind === 'task') {
+      const name = uniqueName('New Task', draft.tasks.map(t => t.name));
+      const template: TaskTemplate = { name, systemInstruction: '', promptTemplate: '{{input}}', preferredModel: 'any', outputFormat: 'markdown' };
+      update({ tasks: [...draft.tasks, template] });
+      setSelection({ kind, index: draft.tasks.length });
+    } else {
+      update({ pairs: [...draft.pairs, { subject: draft.subjects[0].name, task: draft.tasks[0].name }] });
+      setSelection({ kind, index: draft.pairs.length });
+    }
+  };
+
+  const removeItem = (kind: 'subject' | 'task' | 'pair', index: number) => {
+    if (kind === 'subject') {
+      const { name } = draft.subjects[index];
+      update({ subjects: draft.subjects.filter((_, i) => i !== index), pairs: draft.pairs.filter(p => p.subject !== name) });
+    } else if (kind === 'task') {
+      const { name } = draft.tasks[index];
+      update({ tasks: draft.tasks.filter((_, i) => i !== index), pairs: draft.pairs.filter(p => p.task !== name) });
+    } else {
+      update({ pairs: draft.pairs.filter((_, i) => i !== index) });
+    }
+    setSelection(null);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(draft, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `chatgps-templates-r${draft.revision}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTemplateRegistry(JSON.parse(await file.text()));
+      // The imported file's revision is informational; saving always creates the next revision here.
+      setDraft({ ...imported, revision: registry.revision, updatedAt: registry.updatedAt, updatedBy: registry.updatedBy });
+      setSelection({ kind: 'subject', index: 0 });
+      setImportError('');
+      setStatus(`Imported ${file.name}. Review the templates and save to publish them.`);
+    } catch (error) {
+      setImportError(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm('Replace the current templates with the built-in ones? Nothing changes for students until you save.')) {
+      setDraft({ ...DEFAULT_TEMPLATE_REGISTRY, revision: registry.revision, updatedAt: registry.updatedAt, updatedBy: registry.updatedBy });
+      setSelection({ kind: 'subject', index: 0 });
+      setStatus('');
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setStatus('');
+    try {
+      const saved = await saveTemplateRegistry(parseTemplateRegistry(draft));
+      setDraft(saved);
+      onSaved(saved);
+      setStatus(`Saved as revision ${saved.revision}.`);
+    } catch (error) {
+      setStatus(`Could not save: ${(error as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderList = <T,>(kind: 'subject' | 'task' | 'pair', title: string, items: T[], label: (item: T) => string) => (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">{title}</h3>
+        <button onClick={() => addItem(kind)} className="p-1 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={`Add ${kind}`}>
+          <PlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <li key={index}>
+            <button
+              onClick={() => setSelection({ kind, index })}
+              className={`w-full text-left px-3 py-1.5 rounded-md text-sm truncate ${
+                selection?.kind === kind && selection.index === index
+                  ? 'bg-indigo-500 text-white'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
+            >
+              {label(item)}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const renderModelAndFormat = (
+    model: ModelPreference | undefined,
+    format: OutputFormat | undefined,
+    onChange: (field: 'preferredModel' | 'outputFormat', value: string) => void,
+    allowInherit: boolean,
+  ) => (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label className={labelClass}>Preferred model</label>
+        <select value={model ?? ''} onChange={e => onChange('preferredModel', e.target.value)} className={inputClass}>
+          {allowInherit && <option value="">Same as task</option>}
+          {MODEL_PREFERENCES.map(m => <option key={m} value={m}>{MODEL_LABELS[m]}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Output format</label>
+        <select value={format ?? ''} onChange={e => onChange('outputFormat', e.target.value)} className={inputClass}>
+          {allowInherit && <option value="">Same as task</option>}
+          {OUTPUT_FORMATS.map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+
+  const renderForm = () => {
+    if (!selection) {
+      return <p className="text-sm text-gray-500 dark:text-gray-400">Select a subject, task or combination to edit it.</p>;
+    }
+    const { kind, index } = selection;
+    if (kind === 'subject' && draft.subjects[index]) {
+      const subject = draft.subjects[index];
+      return (
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>Subject name</label>
+            <input type="text" value={subject.name} onChange={e => updateSubject(index, { name: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>System instruction</label>
+            <textarea rows={4} value={subject.systemInstruction} onChange={e => updateSubject(index, { systemInstruction: e.target.value })} className={inputClass} />
+          </div>
+          <button onClick={() => removeItem('subject', index)} className="flex items-center gap-2 text-sm text-red-600 hover:text-red-700">
+            <TrashIcon className="w-4 h-4" /> Delete subject
+          </button>
+        </div>
+      );
+    }
+    if (kind === 'task' && draft.tasks[index]) {
+      const task = draft.tasks[index];
+      return (
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>Task name</label>
+            <input type="text" value={task.name} onChange={e => updateTask(index, { name: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>System instruction</label>
+            <textarea rows={3} value={task.systemInstruction} onChange={e => updateTask(index, { systemInstruction: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Prompt template ({'{{subject}}'}, {'{{task}}'} and {'{{input}}'} are filled in)</label>
+            <textarea rows={4} value={task.promptTemplate} onChange={e => updateTask(index, { promptTemplate: e.target.value })} className={`${inputClass} font-mono`} />
+          </div>
+          {renderModelAndFormat(task.preferredModel, task.outputFormat, (field, value) => updateTask(index, { [field]: value }), false)}
+          <button onClick={() => removeItem('task', index)} className="flex items-center gap-2 text-sm text-red-600 hover:text-red-700">
+            <TrashIcon className="w-4 h-4" /> Delete task
+          </button>
+        </div>
+      );
+    }
+    if (kind === 'pair' && draft.pairs[index]) {
+      const pair = draft.pairs[index];
+      return (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Subject</label>
+              <select value={pair.subject} onChange={e => updatePair(index, 'subject', e.target.value)} className={inputClass}>
+                {draft.subjects.map(s => <option key={s.name}>{s.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Task</label>
+              <select value={pair.task} onChange={e => updatePair(index, 'task', e.target.value)} className={inputClass}>
+                {draft.tasks.map(t => <option key={t.name}>{t.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Extra system instruction</label>
+            <textarea rows={3} value={pair.systemInstruction ?? ''} onChange={e => updatePair(index, 'systemInstruction', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Prompt template (leave empty to use the task's)</label>
+            <textarea rows={4} value={pair.promptTemplate ?? ''} onChange={e => updatePair(index, 'promptTemplate', e.target.value)} className={`${inputClass} font-mono`} />
+          </div>
+          {renderModelAndFormat(pair.preferredModel, pair.outputFormat, (field, value) => updatePair(index, field, value), true)}
+          <button onClick={() => removeItem('pair', index)} className="flex items-center gap-2 text-sm text-red-600 hover:text-red-700">
+            <TrashIcon className="w-4 h-4" /> Delete combination
+          </button>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const preview = resolveTemplate(draft, previewSubject, previewTask);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {registry.revision === 0
+            ? 'Students currently use the built-in templates.'
+            : `Revision ${registry.revision}, saved by ${registry.updatedBy ?? 'unknown'} on ${new Date(registry.updatedAt ?? 0).toLocaleString()}.`}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <button onClick={() => fileInputRef.current?.click()} className="px-3 py-2 text-sm rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600">Import JSON</button>
+          <button onClick={handleExport} className="px-3 py-2 text-sm rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600">Export JSON</button>
+          <button onClick={handleReset} className="px-3 py-2 text-sm rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600">Reset to Built-in</button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || !!validationError || isSaving}
+            className="flex items-center gap-2 px-4 py-2 text-sm rounded-md bg-indigo-500 text-white hover:bg-indigo-600 disabled:bg-indigo-300"
+          >
+            {isSaving && <LoaderIcon className="w-4 h-4 animate-spin" />}
+            Save and Publish
+          </button>
+        </div>
+      </div>
+      {(validationError || importError) && (
+        <p className="p-3 rounded-md bg-red-100 dark:bg-red-900/40 text-sm text-red-700 dark:text-red-300">{importError || validationError}</p>
+      )}
+      {status && <p className="text-sm text-gray-600 dark:text-gray-300">{status}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <section className="space-y-4 bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+          {renderList('subject', 'Subjects', draft.subjects, s => s.name || '(unnamed)')}
+          {renderList('task', 'Tasks', draft.tasks, t => t.name || '(unnamed)')}
+          {renderList('pair', 'Subject + Task Combinations', draft.pairs, p => `${p.subject} · ${p.task}`)}
+        </section>
+
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+          {renderForm()}
+        </section>
+
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-4">
+          <h3 className="text-md font-semibold">Live Preview</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <select value={previewSubject} onChange={e => setPreviewSubject(e.target.value)} className={inputClass} aria-label="Preview subject">
+              {draft.subjects.map(s => <option key={s.name}>{s.name}</option>)}
+            </select>
+            <select value={previewTask} onChange={e => setPreviewTask(e.target.value)} className={inputClass} aria-label="Preview task">
+              {draft.tasks.map(t => <option key={t.name}>{t.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Sample student input</label>
+            <textarea rows={2} value={previewInput} onChange={e => setPreviewInput(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <p className={labelClass}>System instruction</p>
+            <pre className="p-3 rounded-md bg-gray-100 dark:bg-gray-900 text-xs whitespace-pre-wrap">{preview.systemInstruction || '(none beyond the default)'}</pre>
+          </div>
+          <div>
+            <p className={labelClass}>Prompt sent to the model</p>
+            <pre className="p-3 rounded-md bg-gray-100 dark:bg-gray-900 text-xs whitespace-pre-wrap">
+              {renderPrompt(preview.promptTemplate, { subject: previewSubject, task: previewTask, input: previewInput })}
+            </pre>
+          </div>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Model: {MODEL_LABELS[preview.preferredModel]} · Output: {FORMAT_LABELS[preview.outputFormat]}
+          </p>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -1,117 +1,164 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveSession, LiveServerMessage, Blob } from '@google/genai';
-import { MicIcon } from './Icons';
-
-// Helper function for audio encoding
-function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
+import React, { useState, useRef, useEffect, useCallback, useReducer } from 'react';
+import { LiveServerMessage } from '@google/genai';
+import { startLiveSession, LiveSession, LiveConnectionState } from '../services/liveSession';
+import { startMicrophoneCapture, createPcmBlob, MicrophoneCapture } from '../services/audioCapture';
+import { recordUsage } from '../services/classroomService';
+import {
+  applyLectureTranscriptEvent, loadLectureTranscript, saveLectureTranscript, formatTranscript, transcriptFileName,
+  TRANSCRIPT_FORMATS, TranscriptFormat, TranscriptSegment,
+} from '../services/lectureTranscript';
+import LiveConnectionStatus from './LiveConnectionStatus';
+import { MicIcon, CopyIcon, CheckIcon, TrashIcon } from './Icons';
+
+interface TranscriberProps {
+  // The transcript is kept per user, so it survives switching features and reloading.
+  username: string;
 }
 
-const Transcriber: React.FC = () => {
+const formatSegmentTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const SegmentView: React.FC<{ segment: TranscriptSegment; isCurrent?: boolean }> = ({ segment, isCurrent }) => (
+  <p className={`mb-2 ${isCurrent ? 'text-gray-500 dark:text-gray-400' : ''}`}>
+    <span className="mr-2 text-xs font-mono text-gray-400">{formatSegmentTime(segment.start)}</span>
+    {segment.text}
+  </p>
+);
+
+// Long recordings such as lectures run on a reconnecting live session: if the connection drops,
+// the text heard so far is finalized and the microphone audio is buffered until it is back.
+const Transcriber: React.FC<TranscriberProps> = ({ username }) => {
   const [isRecording, setIsRecording] = useState(false);
-  const [transcription, setTranscription] = useState('');
-  const [finalizedTranscription, setFinalizedTranscription] = useState('');
+  const [transcript, dispatchTranscript] = useReducer(applyLectureTranscriptEvent, username, loadLectureTranscript);
+  const [exportFormat, setExportFormat] = useState<TranscriptFormat>('srt');
+  const [copied, setCopied] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [connection, setConnection] = useState<{ state: LiveConnectionState; attempt: number }>({ state: 'closed', attempt: 0 });
+  const [error, setError] = useState('');
+
+  const sessionRef = useRef<LiveSession | null>(null);
+  const captureRef = useRef<MicrophoneCapture | null>(null);
+
+  const finalizeTranscription = useCallback(() => {
+    dispatchTranscript({ type: 'finalize' });
+  }, []);
 
-  const sessionRef = useRef<Promise<LiveSession> | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  useEffect(() => {
+    saveLectureTranscript(username, transcript);
+  }, [username, transcript]);
 
   const stopTranscription = useCallback(() => {
-    if (sessionRef.current) {
-      sessionRef.current.then(session => session.close());
-      sessionRef.current = null;
-    }
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
-    }
-    if (scriptProcessorRef.current) {
-      scriptProcessorRef.current.disconnect();
-      scriptProcessorRef.current = null;
-    }
-    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        audioContextRef.current.close();
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    session?.close();
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
     }
     setIsRecording(false);
-    // fix: Use functional state update to get the latest transcription and avoid stale closure.
-    setTranscription(currentTranscription => {
-      if (currentTranscription) {
-        setFinalizedTranscription(prev => prev + currentTranscription);
-      }
-      return '';
+    setIsPaused(false);
+    finalizeTranscription();
+  }, [finalizeTranscription]);
+
+  const startTranscription = () => {
+    if (isRecording || sessionRef.current) return;
+    recordUsage('transcribe');
+    setError('');
+    sessionRef.current = startLiveSession({
+      config: {
+        inputAudioTranscription: {},
+      },
+      onOpen: async () => {
+        let capture: MicrophoneCapture;
+        try {
+          capture = await startMicrophoneCapture({
+            onChunk: (pcm) => {
+              sessionRef.current?.send({ media: createPcmBlob(pcm) });
+            },
+          });
+        } catch (err) {
+          console.error('Failed to start transcription:', err);
+          setError('Could not start the microphone. Please allow microphone access.');
+          stopTranscription();
+          return;
+        }
+        // Recording may have been stopped while the microphone was starting up.
+        if (!sessionRef.current) {
+          capture.stop();
+          return;
+        }
+        captureRef.current = capture;
+        dispatchTranscript({ type: 'start', at: Date.now() });
+        setIsRecording(true);
+      },
+      onMessage: (message: LiveServerMessage) => {
+        if (message.serverContent?.inputTranscription?.text) {
+          dispatchTranscript({ type: 'text', text: message.serverContent.inputTranscription.text, at: Date.now() });
+        }
+        if (message.serverContent?.turnComplete) {
+          finalizeTranscription();
+        }
+      },
+      onStateChange: (state, attempt) => {
+        setConnection({ state, attempt });
+        // The new connection will not complete the old one's turn, so keep what was heard.
+        if (state === 'reconnecting') {
+          finalizeTranscription();
+        }
+      },
+      onClose: (closeError) => {
+        if (closeError) {
+          console.error('Transcription error:', closeError);
+          setError(`Recording stopped: ${closeError.message} The transcript so far is kept.`);
+        }
+        stopTranscription();
+      },
     });
-  }, []);
+  };
+
+  const togglePause = () => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    if (capture.isPaused) {
+      capture.resume();
+    } else {
+      capture.pause();
+    }
+    setIsPaused(capture.isPaused);
+  };
+
+  // Includes the segment still being transcribed, so nothing heard so far is left out.
+  const exportSegments = transcript.current ? [...transcript.segments, transcript.current] : transcript.segments;
+  const hasTranscript = exportSegments.some(segment => segment.text.trim());
 
-  const startTranscription = async () => {
-    if (isRecording) return;
-    
+  const downloadTranscript = () => {
+    const text = formatTranscript(exportSegments, exportFormat, transcript.startedAt ?? undefined);
+    const blob = new Blob([text], { type: `${TRANSCRIPT_FORMATS[exportFormat].mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = transcriptFileName(exportFormat, transcript.startedAt);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyTranscript = async () => {
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      sessionRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          inputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: async () => {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            streamRef.current = stream;
-            const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-            audioContextRef.current = inputAudioContext;
-            
-            const source = inputAudioContext.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-            scriptProcessorRef.current = scriptProcessor;
-
-            scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-              const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-              const pcmBlob: Blob = {
-                data: encode(new Uint8Array(new Int16Array(inputData.map(f => f * 32768)).buffer)),
-                mimeType: 'audio/pcm;rate=16000',
-              };
-              if (sessionRef.current) {
-                  sessionRef.current.then((session) => {
-                      session.sendRealtimeInput({ media: pcmBlob });
-                  });
-              }
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContext.destination);
-            setIsRecording(true);
-          },
-          onmessage: (message: LiveServerMessage) => {
-            if (message.serverContent?.inputTranscription) {
-              setTranscription(prev => prev + message.serverContent.inputTranscription.text);
-            }
-            if (message.serverContent?.turnComplete) {
-              // fix: Use functional state update to get the latest transcription and avoid stale closure.
-              setTranscription(currentTranscription => {
-                if (currentTranscription) {
-                  setFinalizedTranscription(prev => prev + currentTranscription);
-                }
-                return '';
-              });
-            }
-          },
-          onerror: (e: ErrorEvent) => {
-            console.error('Transcription error:', e);
-            stopTranscription();
-          },
-          onclose: () => {
-            setIsRecording(false);
-          },
-        },
-      });
+      await navigator.clipboard.writeText(formatTranscript(exportSegments, 'txt'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
     } catch (err) {
-      console.error('Failed to start transcription:', err);
-      setIsRecording(false);
+      console.error('Failed to copy transcript:', err);
+      setError('Could not copy the transcript to the clipboard.');
+    }
+  };
+
+  const clearTranscript = () => {
+    if (window.confirm('Delete this transcript? Download it first if you want to keep it.')) {
+      dispatchTranscript({ type: 'clear' });
     }
   };
 
@@ -134,12 +181,57 @@ const Transcriber: React.FC = () => {
                 <MicIcon className="w-12 h-12 text-white" />
                 {isRecording && <div className="absolute inset-0 rounded-full border-4 border-white animate-pulse"></div>}
             </button>
-            <p className="text-lg font-medium">{isRecording ? 'Recording...' : 'Tap to Record'}</p>
-            <div className="w-full max-w-3xl h-80 bg-white dark:bg-gray-700 rounded-lg p-6 overflow-y-auto shadow-inner text-gray-800 dark:text-gray-200">
-                <p className="whitespace-pre-wrap">
-                  {finalizedTranscription}
-                  <span className="text-gray-500 dark:text-gray-400">{transcription}</span>
-                </p>
+            <p className="text-lg font-medium">{isRecording ? (isPaused ? 'Paused' : 'Recording...') : 'Tap to Record'}</p>
+            <LiveConnectionStatus state={connection.state} attempt={connection.attempt} />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {isRecording && (
+                <button
+                    onClick={togglePause}
+                    className="px-4 py-2 text-sm font-medium rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                >
+                    {isPaused ? 'Resume' : 'Pause'}
+                </button>
+            )}
+            <div className="w-full max-w-3xl">
+                <div className="flex flex-wrap items-center justify-end gap-2 mb-2">
+                    <select
+                        value={exportFormat}
+                        onChange={e => setExportFormat(e.target.value as TranscriptFormat)}
+                        aria-label="Export format"
+                        className="px-2 py-1.5 text-sm rounded-md bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600"
+                    >
+                        {(Object.keys(TRANSCRIPT_FORMATS) as TranscriptFormat[]).map(format => (
+                            <option key={format} value={format}>{TRANSCRIPT_FORMATS[format].label} (.{format})</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={downloadTranscript}
+                        disabled={!hasTranscript}
+                        className="px-3 py-1.5 text-sm font-medium rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        Download
+                    </button>
+                    <button
+                        onClick={copyTranscript}
+                        disabled={!hasTranscript}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {copied ? <CheckIcon className="w-4 h-4" /> : <CopyIcon className="w-4 h-4" />}
+                        {copied ? 'Copied' : 'Copy'}
+                    </button>
+                    <button
+                        onClick={clearTranscript}
+                        disabled={!hasTranscript || isRecording}
+                        aria-label="Delete transcript"
+                        className="p-1.5 rounded-md text-gray-500 hover:text-red-600 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+                <div className="h-80 bg-white dark:bg-gray-700 rounded-lg p-6 overflow-y-auto shadow-inner text-gray-800 dark:text-gray-200">
+                    {transcript.segments.map((segment, index) => <SegmentView key={index} segment={segment} />)}
+                    {transcript.current && <SegmentView segment={transcript.current} isCurrent />}
+                </div>
             </div>
         </div>
     </div>
@@ -0,0 +1,42 @@
+import React from 'react';
+import type { AnswerVerification } from '../types';
+
+interface VerificationBadgeProps {
+  verification: AnswerVerification;
+}
+
+const BADGE_STYLES: Record<AnswerVerification['status'], { label: string; className: string }> = {
+  verified: {
+    label: 'Verified',
+    className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  },
+  'checks-out': {
+    label: 'Checks out',
+    className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  },
+  unverified: {
+    label: 'Could not verify',
+    className: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  },
+  mismatch: {
+    label: 'Mismatch',
+    className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  },
+};
+
+// The result of checking a model's final answer in the browser, with the reason on hover.
+const VerificationBadge: React.FC<VerificationBadgeProps> = ({ verification }) => {
+  const { label, className } = BADGE_STYLES[verification.status];
+  return (
+    <div className="mt-3 flex items-center gap-2 text-xs">
+      <span className={`px-2 py-0.5 rounded-full font-medium whitespace-nowrap ${className}`} title={verification.detail}>
+        {label}
+      </span>
+      <span className="text-gray-500 dark:text-gray-400 truncate" title={verification.detail}>
+        {verification.detail}
+      </span>
+    </div>
+  );
+};
+
+export default VerificationBadge;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { VOICES, SPEAKING_RATES, LANGUAGES, PERSONAS, CUSTOM_PERSONA_ID, personaFor, VoiceProfile, SpeakingRate } from '../services/voiceProfile';
+
+interface VoiceSettingsProps {
+  profile: VoiceProfile;
+  onChange: (profile: VoiceProfile) => void;
+  // Settings are applied when a conversation starts, so they are locked during one.
+  disabled?: boolean;
+}
+
+const SELECT_CLASS = 'mt-1 w-full p-2 rounded-md bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-sm';
+
+const VoiceSettings: React.FC<VoiceSettingsProps> = ({ profile, onChange, disabled }) => {
+  const update = (changes: Partial<VoiceProfile>) => onChange({ ...profile, ...changes });
+  const persona = personaFor(profile);
+
+  return (
+    <fieldset className="w-full max-w-2xl grid grid-cols-1 sm:grid-cols-2 gap-4 p-4 rounded-lg bg-white dark:bg-gray-700 shadow-sm text-sm" disabled={disabled}>
+      <legend className="sr-only">Voice settings</legend>
+      <label className="sm:col-span-2 block">
+        <span className="font-medium">Persona</span>
+        <select value={profile.personaId} onChange={e => update({ personaId: e.target.value })} className={SELECT_CLASS}>
+          {PERSONAS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <span className="mt-1 block text-xs text-gray-500 dark:text-gray-400">{persona.description}</span>
+      </label>
+      {persona.id === CUSTOM_PERSONA_ID && (
+        <label className="sm:col-span-2 block">
+          <span className="font-medium">Instructions</span>
+          <textarea
+            value={profile.customInstruction}
+            onChange={e => update({ customInstruction: e.target.value })}
+            rows={3}
+            placeholder="e.g. You are a chemistry lab partner. Quiz me on lab safety."
+            className={SELECT_CLASS}
+          />
+        </label>
+      )}
+      <label className="block">
+        <span className="font-medium">Voice</span>
+        <select value={profile.voiceName} onChange={e => update({ voiceName: e.target.value })} className={SELECT_CLASS}>
+          {VOICES.map(v => <option key={v.name} value={v.name}>{v.name} ({v.description})</option>)}
+        </select>
+      </label>
+      <label className="block">
+        <span className="font-medium">Reply language</span>
+        <select value={profile.language} onChange={e => update({ language: e.target.value })} className={SELECT_CLASS}>
+          {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+        </select>
+      </label>
+      <div>
+        <span className="font-medium">Speaking rate</span>
+        <div className="mt-1 flex gap-2">
+          {(Object.keys(SPEAKING_RATES) as SpeakingRate[]).map(rate => (
+            <label key={rate} className="flex items-center gap-1">
+              <input type="radio" name="speaking-rate" checked={profile.speakingRate === rate} onChange={() => update({ speakingRate: rate })} />
+              {SPEAKING_RATES[rate].label}
+            </label>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-start gap-2">
+        <input type="checkbox" className="mt-1" checked={profile.replyMode === 'text'} onChange={e => update({ replyMode: e.target.checked ? 'text' : 'audio' })} />
+        <span>
+          <span className="font-medium">Text-only replies</span>
+          <span className="block text-xs text-gray-500 dark:text-gray-400">For quiet places: replies are shown in the transcript instead of spoken.</span>
+        </span>
+      </label>
+      {disabled && <p className="sm:col-span-2 text-xs text-gray-500 dark:text-gray-400">Changes apply to your next conversation.</p>}
+    </fieldset>
+  );
+};
+
+export default VoiceSettings;
@@ -0,0 +1,134 @@
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createAuthStore, AuthError, type UserRole } from './authStore';
+import { type Handler, bearerToken, readJson, sendJson } from './http';
+import { loadProviderConfigs, discover, exchangeCode, verifyIdToken } from './oidc';
+import { createMockIdentityProvider } from './mockIdentityProvider';
+import { createClassroomStore } from './classroomStore';
+import { createClassroomRoutes } from './classroomRoutes';
+import { createTemplateStore } from './templateStore';
+
+// Small local authentication server for ChatGPS. Run with `npm run auth-server`;
+// the Vite dev server proxies `/api` requests here.
+
+const PORT = Number(process.env.AUTH_PORT ?? 3001);
+// Origin the browser and this server use to reach the auth server directly (for the mock identity provider).
+const PUBLIC_URL = process.env.AUTH_PUBLIC_URL ?? `http://localhost:${PORT}`;
+const DATA_FILE = process.env.AUTH_DATA_FILE ?? path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'auth.json');
+const CLASSROOM_DATA_FILE = path.join(path.dirname(DATA_FILE), 'classroom.json');
+const TEMPLATES_DATA_FILE = path.join(path.dirname(DATA_FILE), 'templates.json');
+
+// Comma-separated usernames promoted to the teacher or admin role at startup.
+const usernamesFromEnv = (value: string | undefined) => (value ?? '').split(',').map(name => name.trim()).filter(Boolean);
+const PROMOTED_ROLES: Record<string, UserRole> = {
+    ...Object.fromEntries(usernamesFromEnv(process.env.AUTH_TEACHER_USERNAMES).map(name => [name, 'teacher'])),
+    ...Object.fromEntries(usernamesFromEnv(process.env.AUTH_ADMIN_USERNAMES).map(name => [name, 'admin'])),
+};
+
+const main = async () => {
+    const store = await createAuthStore(DATA_FILE, process.env.AUTH_SECRET, PROMOTED_ROLES);
+    const classroomRoutes = createClassroomRoutes(store, await createClassroomStore(CLASSROOM_DATA_FILE), await createTemplateStore(TEMPLATES_DATA_FILE));
+    const mockIdentityProvider = createMockIdentityProvider(`${PUBLIC_URL}/api/mock-idp`);
+    const oidcProviders = loadProviderConfigs(`${PUBLIC_URL}/api/mock-idp`);
+
+    const routes: Record<string, Handler> = {
+        'POST /api/auth/register': async (req) => {
+            const { username, password } = await readJson(req);
+            return store.register(username, password);
+        },
+        'POST /api/auth/login': async (req) => {
+            const { username, password } = await readJson(req);
+            return store.login(username, password);
+        },
+        'POST /api/auth/refresh': async (req) => {
+            const { refreshToken } = await readJson(req);
+            return store.refresh(refreshToken);
+        },
+        'POST /api/auth/logout': async (req) => {
+            const { refreshToken } = await readJson(req);
+            await store.logout(refreshToken);
+            return { ok: true };
+        },
+        'GET /api/auth/session': async (req) => {
+            const payload = store.verifyAccessToken(bearerToken(req));
+            return { user: store.getUser(payload.sub), expiresAt: payload.exp };
+        },
+        // Public settings the browser needs to start a PKCE flow; unreachable providers are left out.
+        'GET /api/auth/oidc/providers': async () => {
+            const providers = await Promise.all(oidcProviders.map(async (provider) => {
+                try {
+                    const { authorization_endpoint } = await discover(provider.issuer);
+                    return { id: provider.id, label: provider.label, clientId: provider.clientId, scope: provider.scope, authorizationEndpoint: authorization_endpoint };
+                } catch (error) {
+                    console.error(`OIDC discovery failed for ${provider.id}:`, error);
+                    return null;
+                }
+            }));
+            return { providers: providers.filter(Boolean) };
+        },
+        'POST /api/auth/oidc/exchange': async (req) => {
+            const { providerId, code, codeVerifier, redirectUri, nonce } = await readJson(req);
+            const provider = oidcProviders.find(p => p.id === providerId);
+            if (!provider) {
+                throw new AuthError(400, 'Unknown sign-in provider.');
+            }
+            if (typeof code !== 'string' || typeof codeVerifier !== 'string' || typeof redirectUri !== 'string' || typeof nonce !== 'string') {
+                throw new AuthError(400, 'Incomplete sign-in response.');
+            }
+            const idToken = await exchangeCode(provider, { code, codeVerifier, redirectUri });
+            const claims = await verifyIdToken(provider, idToken, nonce);
+            return store.signInWithIdentity(
+                { provider: provider.id, subject: claims.sub },
+                { displayName: claims.name, email: claims.email, picture: claims.picture }
+            );
+        },
+        'POST /api/auth/password-reset/request': async (req) => {
+            const { username } = await readJson(req);
+            const token = await store.requestPasswordReset(username);
+            if (token) {
+                // There is no mail service in local development; the operator relays the code.
+                console.log(`Password reset code for "${username}": ${token}`);
+            }
+            // Same response either way so the endpoint cannot be used to probe for usernames.
+            return { ok: true };
+        },
+        'POST /api/auth/password-reset/confirm': async (req) => {
+            const { token, newPassword } = await readJson(req);
+            await store.resetPassword(token, newPassword);
+            return { ok: true };
+        },
+    };
+
+    const server = createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        try {
+            if (await mockIdentityProvider.handle(req, res, url)) return;
+        } catch (error) {
+            console.error('Mock identity provider error:', error);
+            sendJson(res, 500, { error: 'server_error' });
+            return;
+        }
+        const handler = routes[`${req.method} ${url.pathname}`] ?? classroomRoutes(req.method ?? 'GET', url.pathname);
+        if (!handler) {
+            sendJson(res, 404, { error: 'Not found.' });
+            return;
+        }
+        try {
+            sendJson(res, 200, await handler(req));
+        } catch (error) {
+            if (error instanceof AuthError) {
+                sendJson(res, error.status, { error: error.message });
+            } else {
+                console.error('Auth server error:', error);
+                sendJson(res, 500, { error: 'Internal server error.' });
+            }
+        }
+    });
+
+    server.listen(PORT, () => {
+        console.log(`ChatGPS auth server listening on http://localhost:${PORT}`);
+    });
+};
+
+main();
@@ -0,0 +1,279 @@
+import { randomBytes, scrypt, timingSafeEqual, createHmac, createHash } from 'node:crypto';
+import { promisify } from 'node:util';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+const KEY_LENGTH = 64;
+
+// Admins can do everything teachers can and also edit the subject and task templates.
+export type UserRole = 'student' | 'teacher' | 'admin';
+
+export interface UserProfile {
+    displayName?: string;
+    email?: string;
+    picture?: string;
+}
+
+// A link between a local account and an account at an external identity provider.
+export interface LinkedIdentity {
+    provider: string;
+    subject: string;
+}
+
+export interface StoredUser {
+    username: string;
+    // `salt:hash`, both hex-encoded scrypt output. Absent for accounts created through social sign-in.
+    passwordHash?: string;
+    profile?: UserProfile;
+    identities?: LinkedIdentity[];
+    // Missing on accounts created before roles existed; those are students.
+    role?: UserRole;
+    createdAt: number;
+}
+
+// The part of a user that is sent to the client.
+export interface PublicUser extends UserProfile {
+    username: string;
+    role: UserRole;
+}
+
+interface StoredToken {
+    // SHA-256 of the token; the raw value only ever lives on the client.
+    tokenHash: string;
+    username: string;
+    expiresAt: number;
+}
+
+interface AuthData {
+    secret: string;
+    users: Record<string, StoredUser>;
+    refreshTokens: StoredToken[];
+    resetTokens: StoredToken[];
+}
+
+export interface AccessTokenPayload {
+    sub: string;
+    iat: number;
+    exp: number;
+}
+
+export interface SessionTokens {
+    accessToken: string;
+    refreshToken: string;
+    expiresAt: number;
+    user: PublicUser;
+}
+
+export class AuthError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+// Demo accounts seeded on first run. Their passwords follow the same rules as everyone else's;
+// data files created before that rule keep their old demo passwords.
+const seedUsers: Record<string, { password: string; role: UserRole }> = {
+    'student': { password: 'student123', role: 'student' },
+    'teacher': { password: 'teacher123', role: 'teacher' },
+    'demouser': { password: 'demouser123', role: 'student' },
+};
+
+const USERNAME_PATTERN = /^[a-z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString('base64url');
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const hashPassword = async (password: string): Promise<string> => {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `${salt.toString('hex')}:${hash.toString('hex')}`;
+};
+
+const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+    const [saltHex, hashHex] = stored.split(':');
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+};
+
+const toPublicUser = ({ username, profile, role }: StoredUser): PublicUser => ({ username, ...profile, role: role ?? 'student' });
+
+// Derives a free local username from the identity's email or name, e.g. "alex.kim" or "alex.kim-2".
+const usernameFromClaims = (users: Record<string, StoredUser>, profile: UserProfile, subject: string): string => {
+    const source = profile.email?.split('@')[0] ?? profile.displayName ?? subject;
+    const base = source.toLowerCase().replace(/[^a-z0-9_.-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 28).padEnd(3, '0');
+    let candidate = base;
+    for (let suffix = 2; users[candidate]; suffix++) {
+        candidate = `${base}-${suffix}`;
+    }
+    return candidate;
+};
+
+const validatePassword = (password: unknown): string => {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        throw new AuthError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+    }
+    return password;
+};
+
+// `promotedRoles` maps usernames to the role they get at startup; new registrations are students.
+export const createAuthStore = async (dataFile: string, secretOverride?: string, promotedRoles: Record<string, UserRole> = {}) => {
+    let data: AuthData;
+    try {
+        data = JSON.parse(await readFile(dataFile, 'utf8'));
+    } catch {
+        data = { secret: randomBytes(32).toString('hex'), users: {}, refreshTokens: [], resetTokens: [] };
+        for (const [username, { password }] of Object.entries(seedUsers)) {
+            data.users[username] = { username, passwordHash: await hashPassword(validatePassword(password)), createdAt: Date.now() };
+        }
+    }
+    // Also backfills roles for demo accounts seeded before roles existed.
+    for (const [username, { role }] of Object.entries(seedUsers)) {
+        if (data.users[username] && !data.users[username].role) {
+            data.users[username].role = role;
+        }
+    }
+    for (const [username, role] of Object.entries(promotedRoles)) {
+        if (data.users[username]) {
+            data.users[username].role = role;
+        }
+    }
+    const secret = secretOverride || data.secret;
+
+    const persist = async () => {
+        const now = Date.now();
+        data.refreshTokens = data.refreshTokens.filter(t => t.expiresAt > now);
+        data.resetTokens = data.resetTokens.filter(t => t.expiresAt > now);
+        await mkdir(path.dirname(dataFile), { recursive: true });
+        await writeFile(dataFile, JSON.stringify(data, null, 2));
+    };
+    await persist();
+
+    const sign = (payload: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+    const issueTokens = async (username: string): Promise<SessionTokens> => {
+        const now = Date.now();
+        const user = data.users[username];
+        const payload: AccessTokenPayload = { sub: username, iat: now, exp: now + ACCESS_TOKEN_TTL_MS };
+        const encoded = base64url(JSON.stringify(payload));
+        const refreshToken = randomBytes(32).toString('base64url');
+        data.refreshTokens.push({ tokenHash: hashToken(refreshToken), username, expiresAt: now + REFRESH_TOKEN_TTL_MS });
+        await persist();
+        return { accessToken: `${encoded}.${sign(encoded)}`, refreshToken, expiresAt: payload.exp, user: toPublicUser(user) };
+    };
+
+    const consumeToken = (list: StoredToken[], token: unknown): StoredToken | null => {
+        if (typeof token !== 'string') return null;
+        const tokenHash = hashToken(token);
+        const index = list.findIndex(t => t.tokenHash === tokenHash);
+        if (index === -1) return null;
+        const [stored] = list.splice(index, 1);
+        return stored.expiresAt > Date.now() ? stored : null;
+    };
+
+    return {
+        register: async (username: unknown, password: unknown): Promise<SessionTokens> => {
+            if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+                throw new AuthError(400, 'Usernames must be 3-32 characters: lowercase letters, digits, ".", "_" or "-".');
+            }
+            const validPassword = validatePassword(password);
+            if (data.users[username]) {
+                throw new AuthError(409, 'That username is already taken.');
+            }
+            data.users[username] = { username, passwordHash: await hashPassword(validPassword), role: 'student', createdAt: Date.now() };
+            return issueTokens(username);
+        },
+
+        login: async (username: unknown, password: unknown): Promise<SessionTokens> => {
+            const user = typeof username === 'string' ? data.users[username] : undefined;
+            if (!user?.passwordHash || typeof password !== 'string' || !(await verifyPassword(password, user.passwordHash))) {
+                throw new AuthError(401, 'Invalid username or password.');
+            }
+            return issueTokens(user.username);
+        },
+
+        // Refresh tokens are single use: each refresh rotates to a new pair.
+        refresh: async (refreshToken: unknown): Promise<SessionTokens> => {
+            const stored = consumeToken(data.refreshTokens, refreshToken);
+            if (!stored || !data.users[stored.username]) {
+                await persist();
+                throw new AuthError(401, 'Your session has expired. Please sign in again.');
+            }
+            return issueTokens(stored.username);
+        },
+
+        // Signs in the account linked to an external identity, creating it on first use.
+        // The stored profile follows the latest claims from the identity provider.
+        signInWithIdentity: async (identity: LinkedIdentity, profile: UserProfile): Promise<SessionTokens> => {
+            let user = Object.values(data.users).find(u =>
+                u.identities?.some(i => i.provider === identity.provider && i.subject === identity.subject)
+            );
+            if (!user) {
+                const username = usernameFromClaims(data.users, profile, identity.subject);
+                user = { username, identities: [identity], role: 'student', createdAt: Date.now() };
+                data.users[username] = user;
+            }
+            user.profile = { ...user.profile, ...profile };
+            return issueTokens(user.username);
+        },
+
+        getUser: (username: string): PublicUser | null => {
+            const user = data.users[username];
+            return user ? toPublicUser(user) : null;
+        },
+
+        logout: async (refreshToken: unknown) => {
+            consumeToken(data.refreshTokens, refreshToken);
+            await persist();
+        },
+
+        verifyAccessToken: (token: string): AccessTokenPayload => {
+            const [encoded, signature] = token.split('.');
+            if (!encoded || !signature) {
+                throw new AuthError(401, 'Malformed session token.');
+            }
+            const expected = Buffer.from(sign(encoded));
+            const actual = Buffer.from(signature);
+            if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+                throw new AuthError(401, 'Invalid session token.');
+            }
+            const payload: AccessTokenPayload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+            if (payload.exp <= Date.now() || !data.users[payload.sub]) {
+                throw new AuthError(401, 'Your session has expired.');
+            }
+            return payload;
+        },
+
+        // Returns the reset token for out-of-band delivery, or null for unknown users.
+        requestPasswordReset: async (username: unknown): Promise<string | null> => {
+            if (typeof username !== 'string' || !data.users[username]) return null;
+            const token = randomBytes(6).toString('hex');
+            data.resetTokens.push({ tokenHash: hashToken(token), username, expiresAt: Date.now() + RESET_TOKEN_TTL_MS });
+            await persist();
+            return token;
+        },
+
+        resetPassword: async (token: unknown, newPassword: unknown) => {
+            const validPassword = validatePassword(newPassword);
+            const stored = consumeToken(data.resetTokens, token);
+            const user = stored ? data.users[stored.username] : undefined;
+            if (!user) {
+                await persist();
+                throw new AuthError(400, 'That reset code is invalid or has expired.');
+            }
+            user.passwordHash = await hashPassword(validPassword);
+            // A password change signs the account out everywhere.
+            data.refreshTokens = data.refreshTokens.filter(t => t.username !== user.username);
+            await persist();
+        },
+    };
+};
+
+export type AuthStore = Awaited<ReturnType<typeof createAuthStore>>;
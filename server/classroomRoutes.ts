@@ -0,0 +1,180 @@
+import { AuthError, type AuthStore, type PublicUser } from './authStore';
+import type { ClassroomStore, FlaggedMessage, TutorLock } from './classroomStore';
+import type { TemplateStore } from './templateStore';
+import { type Handler, bearerToken, readJson } from './http';
+
+// Routes for the teacher dashboard (class rosters, usage analytics and flagged conversations)
+// and the admin template editor. Students may only report their own usage, flag their own
+// conversations, answer class invitations and read the templates.
+
+// Flagged conversations carry whole transcripts, so they get a larger body limit.
+const MAX_FLAG_BODY_BYTES = 512 * 1024;
+const MAX_FLAGGED_MESSAGES = 200;
+const FEATURES = ['chat', 'media', 'live', 'transcribe'];
+const MAX_LOCKED_SUBJECTS = 50;
+const MAX_TEMPLATES_BODY_BYTES = 256 * 1024;
+
+const optionalString = (value: unknown, maxLength = 200): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : undefined;
+
+const parseMessages = (value: unknown): FlaggedMessage[] => {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new AuthError(400, 'A flagged conversation needs at least one message.');
+    }
+    return value.slice(-MAX_FLAGGED_MESSAGES).map((message) => {
+        if (!message || (message.role !== 'user' && message.role !== 'model') || typeof message.text !== 'string') {
+            throw new AuthError(400, 'Malformed conversation message.');
+        }
+        return { role: message.role, text: message.text };
+    });
+};
+
+const parseTutorLock = (body: Record<string, unknown>): TutorLock => {
+    const { allSubjects, subjects } = body;
+    if (typeof allSubjects !== 'boolean' || !Array.isArray(subjects) || subjects.length > MAX_LOCKED_SUBJECTS) {
+        throw new AuthError(400, 'Malformed tutor mode settings.');
+    }
+    return {
+        allSubjects,
+        subjects: [...new Set(subjects.map(subject => optionalString(subject)).filter((subject): subject is string => !!subject))],
+    };
+};
+
+export const createClassroomRoutes = (authStore: AuthStore, classroomStore: ClassroomStore, templateStore: TemplateStore) => {
+    const authenticate = (req: Parameters<Handler>[0]): PublicUser => {
+        const payload = authStore.verifyAccessToken(bearerToken(req));
+        const user = authStore.getUser(payload.sub);
+        if (!user) {
+            throw new AuthError(401, 'Your account no longer exists.');
+        }
+        return user;
+    };
+
+    const requireTeacher = (req: Parameters<Handler>[0]): PublicUser => {
+        const user = authenticate(req);
+        if (user.role !== 'teacher' && user.role !== 'admin') {
+            throw new AuthError(403, 'Only teachers can manage classes.');
+        }
+        return user;
+    };
+
+    const requireAdmin = (req: Parameters<Handler>[0]): PublicUser => {
+        const user = authenticate(req);
+        if (user.role !== 'admin') {
+            throw new AuthError(403, 'Only administrators can edit templates.');
+        }
+        return user;
+    };
+
+    const routes: Record<string, Handler> = {
+        'GET /api/classes': async (req) => {
+            const teacher = requireTeacher(req);
+            return { classes: classroomStore.listClasses(teacher.username) };
+        },
+        'POST /api/classes': async (req) => {
+            const teacher = requireTeacher(req);
+            const { name } = await readJson(req);
+            return classroomStore.createClass(teacher.username, name);
+        },
+        // Tutor mode settings that apply to the signed-in student through their classes.
+        'GET /api/tutor-lock': async (req) => classroomStore.tutorLockFor(authenticate(req).username),
+        // The school's subject and task templates; `registry` is null until an admin has saved one.
+        'GET /api/templates': async (req) => {
+            authenticate(req);
+            return { registry: templateStore.get() };
+        },
+        'PUT /api/templates': async (req) => {
+            const admin = requireAdmin(req);
+            const { registry } = await readJson(req, MAX_TEMPLATES_BODY_BYTES);
+            return { registry: await templateStore.save(registry, admin.username) };
+        },
+        // Classes the signed-in student has been invited to and not yet answered.
+        'GET /api/invites': async (req) => ({ invites: classroomStore.invitesFor(authenticate(req).username) }),
+        'POST /api/invites/respond': async (req) => {
+            const user = authenticate(req);
+            const { classId, accept } = await readJson(req);
+            if (typeof classId !== 'string' || typeof accept !== 'boolean') {
+                throw new AuthError(400, 'Malformed invitation response.');
+            }
+            await classroomStore.respondToInvite(user.username, classId, accept);
+            return { ok: true };
+        },
+        'POST /api/usage': async (req) => {
+            const user = authenticate(req);
+            const { feature, subject, problemType } = await readJson(req);
+            if (typeof feature !== 'string' || !FEATURES.includes(feature)) {
+                throw new AuthError(400, 'Unknown feature.');
+            }
+            await classroomStore.recordUsage({
+                username: user.username,
+                feature,
+                subject: optionalString(subject),
+                problemType: optionalString(problemType),
+                at: Date.now(),
+            });
+            return { ok: true };
+        },
+        'POST /api/flags': async (req) => {
+            const user = authenticate(req);
+            const body = await readJson(req, MAX_FLAG_BODY_BYTES);
+            const conversationId = optionalString(body.conversationId);
+            if (!conversationId) {
+                throw new AuthError(400, 'Missing conversation.');
+            }
+            const { classIds = [] } = await classroomStore.flagConversation({
+                username: user.username,
+                conversationId,
+                title: optionalString(body.title) ?? 'Untitled conversation',
+                subject: optionalString(body.subject) ?? '',
+                problemType: optionalString(body.problemType) ?? '',
+                reason: optionalString(body.reason, 1000) ?? '',
+                messages: parseMessages(body.messages),
+            });
+            return { classCount: classIds.length };
+        },
+    };
+
+    // Routes under a single class: /api/classes/:id/{students,usage,flags,tutor-lock}.
+    const classRoute = (method: string, pathname: string): Handler | null => {
+        const match = pathname.match(/^\/api\/classes\/([^/]+)\/(students|usage|flags|tutor-lock)(?:\/([^/]+))?$/);
+        if (!match) return null;
+        const [, classId, resource, member] = match.map(part => part && decodeURIComponent(part));
+
+        if (resource === 'students' && method === 'POST' && !member) {
+            return async (req) => {
+                const teacher = requireTeacher(req);
+                const { username } = await readJson(req);
+                const student = typeof username === 'string' ? authStore.getUser(username.trim().toLowerCase()) : null;
+                if (!student || student.role !== 'student') {
+                    throw new AuthError(404, 'No student account with that username.');
+                }
+                return classroomStore.invite(teacher.username, classId, student.username);
+            };
+        }
+        if (resource === 'students' && method === 'DELETE' && member) {
+            return async (req) => classroomStore.unenrol(requireTeacher(req).username, classId, member);
+        }
+        if (resource === 'tutor-lock' && method === 'PUT' && !member) {
+            return async (req) => {
+                const teacher = requireTeacher(req);
+                return classroomStore.setTutorLock(teacher.username, classId, parseTutorLock(await readJson(req)));
+            };
+        }
+        if (resource === 'usage' && method === 'GET' && !member) {
+            return async (req) => {
+                const teacher = requireTeacher(req);
+                const students = classroomStore.usageFor(teacher.username, classId).map(usage => ({
+                    ...usage,
+                    displayName: authStore.getUser(usage.username)?.displayName,
+                }));
+                return { students };
+            };
+        }
+        if (resource === 'flags' && method === 'GET' && !member) {
+            return async (req) => ({ flags: classroomStore.flagsFor(requireTeacher(req).username, classId) });
+        }
+        return null;
+    };
+
+    return (method: string, pathname: string): Handler | null => routes[`${method} ${pathname}`] ?? classRoute(method, pathname);
+};
@@ -0,0 +1,236 @@
+import { randomUUID } from 'node:crypto';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { AuthError } from './authStore';
+
+// Classes, usage events and flagged conversations behind the teacher dashboard. A teacher only
+// invites a student; the student's usage and flags become visible to the class once they accept.
+
+// Oldest usage events are dropped beyond this many, to keep the data file small.
+const MAX_USAGE_EVENTS = 20000;
+const MAX_CLASS_NAME_LENGTH = 80;
+
+// Where a teacher has locked hint-only tutor mode on for the class.
+export interface TutorLock {
+    allSubjects: boolean;
+    subjects: string[];
+}
+
+export interface Classroom {
+    id: string;
+    name: string;
+    teacher: string;
+    // Students who accepted an invitation.
+    students: string[];
+    // When each student accepted; the class only sees their usage from then on. Missing on classes
+    // created before this was recorded.
+    joinedAt?: Record<string, number>;
+    // Students invited but not yet answered. Missing on classes created before invitations existed.
+    invited?: string[];
+    // Missing on classes created before tutor mode existed; those are unlocked.
+    tutorLock?: TutorLock;
+    createdAt: number;
+}
+
+// What a student sees of a class they have been invited to.
+export interface ClassInvite {
+    classId: string;
+    className: string;
+    teacher: string;
+}
+
+export interface UsageEvent {
+    username: string;
+    // One of the app's features: 'chat', 'media', 'live' or 'transcribe'.
+    feature: string;
+    subject?: string;
+    problemType?: string;
+    at: number;
+}
+
+export interface FlaggedMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface FlaggedConversation {
+    id: string;
+    username: string;
+    conversationId: string;
+    title: string;
+    subject: string;
+    problemType: string;
+    reason: string;
+    messages: FlaggedMessage[];
+    // The classes the student was enrolled in when they flagged it; only those classes see it.
+    // Missing on flags made before this was recorded, which no class sees.
+    classIds?: string[];
+    createdAt: number;
+}
+
+export interface StudentUsage {
+    username: string;
+    total: number;
+    byFeature: Record<string, number>;
+    bySubject: Record<string, number>;
+    byTask: Record<string, number>;
+    lastActiveAt: number | null;
+}
+
+interface ClassroomData {
+    classes: Classroom[];
+    usage: UsageEvent[];
+    flags: FlaggedConversation[];
+}
+
+const increment = (counts: Record<string, number>, key: string | undefined) => {
+    if (key) counts[key] = (counts[key] ?? 0) + 1;
+};
+
+export const createClassroomStore = async (dataFile: string) => {
+    let data: ClassroomData;
+    try {
+        data = JSON.parse(await readFile(dataFile, 'utf8'));
+    } catch {
+        data = { classes: [], usage: [], flags: [] };
+    }
+    // Students added directly by their teachers before invitations existed never agreed to share
+    // their activity, so they are asked again.
+    for (const classroom of data.classes) {
+        if (!classroom.invited) {
+            classroom.invited = classroom.students;
+            classroom.students = [];
+        }
+        // Students who joined before join times were recorded count as joining now, so none of
+        // their earlier usage is shown.
+        if (!classroom.joinedAt) {
+            classroom.joinedAt = Object.fromEntries(classroom.students.map(s => [s, Date.now()]));
+        }
+    }
+
+    const persist = async () => {
+        if (data.usage.length > MAX_USAGE_EVENTS) {
+            data.usage = data.usage.slice(-MAX_USAGE_EVENTS);
+        }
+        await mkdir(path.dirname(dataFile), { recursive: true });
+        await writeFile(dataFile, JSON.stringify(data, null, 2));
+    };
+
+    const ownedClass = (teacher: string, classId: string): Classroom => {
+        const classroom = data.classes.find(c => c.id === classId && c.teacher === teacher);
+        if (!classroom) {
+            throw new AuthError(404, 'Class not found.');
+        }
+        return classroom;
+    };
+
+    return {
+        listClasses: (teacher: string): Classroom[] => data.classes.filter(c => c.teacher === teacher),
+
+        createClass: async (teacher: string, name: unknown): Promise<Classroom> => {
+            if (typeof name !== 'string' || !name.trim() || name.length > MAX_CLASS_NAME_LENGTH) {
+                throw new AuthError(400, `Class names must be 1-${MAX_CLASS_NAME_LENGTH} characters.`);
+            }
+            const classroom: Classroom = { id: randomUUID(), name: name.trim(), teacher, students: [], invited: [], joinedAt: {}, createdAt: Date.now() };
+            data.classes.push(classroom);
+            await persist();
+            return classroom;
+        },
+
+        invite: async (teacher: string, classId: string, username: string): Promise<Classroom> => {
+            const classroom = ownedClass(teacher, classId);
+            const invited = classroom.invited ?? [];
+            if (!classroom.students.includes(username) && !invited.includes(username)) {
+                classroom.invited = [...invited, username];
+                await persist();
+            }
+            return classroom;
+        },
+
+        // Removes an enrolled student or withdraws a pending invitation.
+        unenrol: async (teacher: string, classId: string, username: string): Promise<Classroom> => {
+            const classroom = ownedClass(teacher, classId);
+            classroom.students = classroom.students.filter(s => s !== username);
+            classroom.invited = (classroom.invited ?? []).filter(s => s !== username);
+            delete classroom.joinedAt?.[username];
+            await persist();
+            return classroom;
+        },
+
+        invitesFor: (username: string): ClassInvite[] =>
+            data.classes
+                .filter(c => c.invited?.includes(username))
+                .map(c => ({ classId: c.id, className: c.name, teacher: c.teacher })),
+
+        respondToInvite: async (username: string, classId: string, accept: boolean) => {
+            const classroom = data.classes.find(c => c.id === classId && c.invited?.includes(username));
+            if (!classroom) {
+                throw new AuthError(404, 'Invitation not found.');
+            }
+            classroom.invited = classroom.invited!.filter(s => s !== username);
+            if (accept && !classroom.students.includes(username)) {
+                classroom.students.push(username);
+                classroom.joinedAt = { ...classroom.joinedAt, [username]: Date.now() };
+            }
+            await persist();
+        },
+
+        setTutorLock: async (teacher: string, classId: string, tutorLock: TutorLock): Promise<Classroom> => {
+            const classroom = ownedClass(teacher, classId);
+            classroom.tutorLock = tutorLock;
+            await persist();
+            return classroom;
+        },
+
+        // The union of the tutor locks of every class the student is enrolled in.
+        tutorLockFor: (username: string): TutorLock => {
+            const locks = data.classes.filter(c => c.students.includes(username)).map(c => c.tutorLock);
+            return {
+                allSubjects: locks.some(lock => lock?.allSubjects),
+                subjects: [...new Set(locks.flatMap(lock => lock?.subjects ?? []))],
+            };
+        },
+
+        usageFor: (teacher: string, classId: string): StudentUsage[] => {
+            const classroom = ownedClass(teacher, classId);
+            return classroom.students.map(username => {
+                const usage: StudentUsage = { username, total: 0, byFeature: {}, bySubject: {}, byTask: {}, lastActiveAt: null };
+                const joinedAt = classroom.joinedAt?.[username] ?? Infinity;
+                for (const event of data.usage) {
+                    if (event.username !== username || event.at < joinedAt) continue;
+                    usage.total += 1;
+                    increment(usage.byFeature, event.feature);
+                    increment(usage.bySubject, event.subject);
+                    increment(usage.byTask, event.problemType);
+                    usage.lastActiveAt = Math.max(usage.lastActiveAt ?? 0, event.at);
+                }
+                return usage;
+            });
+        },
+
+        flagsFor: (teacher: string, classId: string): FlaggedConversation[] => {
+            const classroom = ownedClass(teacher, classId);
+            return data.flags
+                .filter(f => f.classIds?.includes(classroom.id) && classroom.students.includes(f.username))
+                .sort((a, b) => b.createdAt - a.createdAt);
+        },
+
+        recordUsage: async (event: UsageEvent) => {
+            data.usage.push(event);
+            await persist();
+        },
+
+        flagConversation: async (flag: Omit<FlaggedConversation, 'id' | 'classIds' | 'createdAt'>): Promise<FlaggedConversation> => {
+            const classIds = data.classes.filter(c => c.students.includes(flag.username)).map(c => c.id);
+            const flagged: FlaggedConversation = { ...flag, id: randomUUID(), classIds, createdAt: Date.now() };
+            // A student in no class has no teacher to send it to, so it is not kept.
+            if (classIds.length > 0) {
+                data.flags.push(flagged);
+                await persist();
+            }
+            return flagged;
+        },
+    };
+};
+
+export type ClassroomStore = Awaited<ReturnType<typeof createClassroomStore>>;
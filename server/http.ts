@@ -0,0 +1,54 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AuthError } from './authStore';
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+export type Handler = (req: IncomingMessage) => Promise<unknown>;
+
+export const readBody = (req: IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<string> =>
+    new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', (chunk) => {
+            body += chunk;
+            if (body.length > maxBytes) {
+                reject(new AuthError(413, 'Request body too large.'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+
+export const readJson = async (req: IncomingMessage, maxBytes?: number): Promise<Record<string, unknown>> => {
+    const body = await readBody(req, maxBytes);
+    try {
+        return body ? JSON.parse(body) : {};
+    } catch {
+        throw new AuthError(400, 'Request body must be JSON.');
+    }
+};
+
+export const bearerToken = (req: IncomingMessage): string => {
+    const header = req.headers.authorization ?? '';
+    if (!header.startsWith('Bearer ')) {
+        throw new AuthError(401, 'Missing session token.');
+    }
+    return header.slice('Bearer '.length);
+};
+
+export const readForm = async (req: IncomingMessage): Promise<URLSearchParams> => new URLSearchParams(await readBody(req));
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify(body));
+};
+
+export const sendHtml = (res: ServerResponse, status: number, html: string) => {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(html);
+};
+
+export const redirect = (res: ServerResponse, location: string) => {
+    res.writeHead(302, { Location: location, 'Cache-Control': 'no-store' });
+    res.end();
+};
@@ -0,0 +1,190 @@
+import { generateKeyPairSync, createHash, randomBytes, sign } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { readForm, sendJson, sendHtml, redirect } from './http';
+
+// Minimal OpenID Connect provider for local development and testing. It supports the
+// authorization-code flow with PKCE (S256) only, and signs ID tokens with a key generated
+// at startup, so nothing it issues survives a restart.
+
+export const MOCK_CLIENT_ID = 'chatgps-dev';
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_S = 5 * 60;
+const KEY_ID = 'mock-key-1';
+
+interface MockIdentity {
+    sub: string;
+    name: string;
+    email: string;
+}
+
+const identities: MockIdentity[] = [
+    { sub: 'mock-alex', name: 'Alex Rivera', email: 'alex.rivera@student.example' },
+    { sub: 'mock-sam', name: 'Sam Chen', email: 'sam.chen@student.example' },
+    { sub: 'mock-taylor', name: 'Jordan Taylor', email: 'jordan.taylor@teacher.example' },
+];
+
+interface PendingCode {
+    identity: MockIdentity;
+    clientId: string;
+    redirectUri: string;
+    codeChallenge: string;
+    nonce?: string;
+    expiresAt: number;
+}
+
+const escapeHtml = (value: string) =>
+    value.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+// An initials avatar, so profile pictures work without network access.
+const avatarFor = (name: string) => {
+    const initials = name.split(' ').map(part => part[0]).join('').slice(0, 2).toUpperCase();
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64"><rect width="64" height="64" rx="32" fill="#6366f1"/><text x="32" y="40" font-family="sans-serif" font-size="24" fill="#fff" text-anchor="middle">${initials}</text></svg>`;
+    return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+};
+
+const isLocalRedirect = (redirectUri: string) => {
+    try {
+        const { hostname } = new URL(redirectUri);
+        return hostname === 'localhost' || hostname === '127.0.0.1';
+    } catch {
+        return false;
+    }
+};
+
+export const createMockIdentityProvider = (issuer: string) => {
+    const basePath = new URL(issuer).pathname.replace(/\/$/, '');
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' };
+    const codes = new Map<string, PendingCode>();
+
+    const signIdToken = (claims: Record<string, unknown>) => {
+        const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        const unsigned = `${encode({ alg: 'RS256', kid: KEY_ID, typ: 'JWT' })}.${encode(claims)}`;
+        return `${unsigned}.${sign('RSA-SHA256', Buffer.from(unsigned), privateKey).toString('base64url')}`;
+    };
+
+    const authorizeError = (res: ServerResponse, message: string) => {
+        sendHtml(res, 400, `<!DOCTYPE html><p>Mock identity provider: ${escapeHtml(message)}</p>`);
+    };
+
+    const validateAuthorizeParams = (params: URLSearchParams): string | null => {
+        if (params.get('response_type') !== 'code') return 'Only response_type=code is supported.';
+        if (params.get('client_id') !== MOCK_CLIENT_ID) return 'Unknown client_id.';
+        if (!isLocalRedirect(params.get('redirect_uri') ?? '')) return 'redirect_uri must point at localhost.';
+        if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) return 'PKCE with S256 is required.';
+        return null;
+    };
+
+    const renderChooser = (res: ServerResponse, params: URLSearchParams) => {
+        const redirectUri = new URL(params.get('redirect_uri')!);
+        redirectUri.searchParams.set('error', 'access_denied');
+        if (params.get('state')) redirectUri.searchParams.set('state', params.get('state')!);
+        const options = identities.map(identity => {
+            const approve = new URLSearchParams(params);
+            approve.set('identity', identity.sub);
+            return `<a class="option" href="${basePath}/authorize/approve?${escapeHtml(approve.toString())}">
+                <img src="${avatarFor(identity.name)}" alt=""><span><strong>${escapeHtml(identity.name)}</strong><br>${escapeHtml(identity.email)}</span></a>`;
+        }).join('');
+        sendHtml(res, 200, `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Mock sign-in</title><style>
+body{font-family:sans-serif;background:#f3f4f6;display:flex;justify-content:center;padding-top:10vh}
+main{background:#fff;border-radius:16px;padding:24px;width:360px;box-shadow:0 4px 16px rgba(0,0,0,.1)}
+.option{display:flex;gap:12px;align-items:center;padding:12px;border-radius:8px;color:#111;text-decoration:none}
+.option:hover{background:#eef2ff}.option img{width:40px;height:40px}
+</style></head><body><main><h1>Mock identity provider</h1><p>Choose a test account to continue.</p>
+${options}<p><a href="${escapeHtml(redirectUri.toString())}">Cancel</a></p></main></body></html>`);
+    };
+
+    const approve = (res: ServerResponse, params: URLSearchParams) => {
+        const identity = identities.find(i => i.sub === params.get('identity'));
+        if (!identity) {
+            authorizeError(res, 'Unknown test identity.');
+            return;
+        }
+        const code = randomBytes(16).toString('base64url');
+        codes.set(code, {
+            identity,
+            clientId: params.get('client_id')!,
+            redirectUri: params.get('redirect_uri')!,
+            codeChallenge: params.get('code_challenge')!,
+            nonce: params.get('nonce') ?? undefined,
+            expiresAt: Date.now() + CODE_TTL_MS,
+        });
+        const target = new URL(params.get('redirect_uri')!);
+        target.searchParams.set('code', code);
+        if (params.get('state')) target.searchParams.set('state', params.get('state')!);
+        redirect(res, target.toString());
+    };
+
+    const token = async (req: IncomingMessage, res: ServerResponse) => {
+        const form = await readForm(req);
+        const code = form.get('code') ?? '';
+        const pending = codes.get(code);
+        codes.delete(code);
+        const verifier = form.get('code_verifier') ?? '';
+        const challenge = createHash('sha256').update(verifier).digest('base64url');
+        if (
+            form.get('grant_type') !== 'authorization_code' ||
+            !pending || pending.expiresAt < Date.now() ||
+            pending.clientId !== form.get('client_id') ||
+            pending.redirectUri !== form.get('redirect_uri') ||
+            pending.codeChallenge !== challenge
+        ) {
+            sendJson(res, 400, { error: 'invalid_grant', error_description: 'The authorization code is invalid, expired or was issued to another client.' });
+            return;
+        }
+        const now = Math.floor(Date.now() / 1000);
+        const { sub, name, email } = pending.identity;
+        sendJson(res, 200, {
+            token_type: 'Bearer',
+            access_token: randomBytes(16).toString('base64url'),
+            expires_in: ID_TOKEN_TTL_S,
+            id_token: signIdToken({
+                iss: issuer, sub, aud: pending.clientId, iat: now, exp: now + ID_TOKEN_TTL_S, nonce: pending.nonce,
+                name, email, email_verified: true, picture: avatarFor(name),
+            }),
+        });
+    };
+
+    // Handles requests under the issuer path; returns false for anything else.
+    const handle = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> => {
+        if (!url.pathname.startsWith(`${basePath}/`)) return false;
+        const route = `${req.method} ${url.pathname.slice(basePath.length)}`;
+        switch (route) {
+            case 'GET /.well-known/openid-configuration':
+                sendJson(res, 200, {
+                    issuer,
+                    authorization_endpoint: `${issuer}/authorize`,
+                    token_endpoint: `${issuer}/token`,
+                    jwks_uri: `${issuer}/jwks`,
+                    response_types_supported: ['code'],
+                    subject_types_supported: ['public'],
+                    id_token_signing_alg_values_supported: ['RS256'],
+                    code_challenge_methods_supported: ['S256'],
+                });
+                return true;
+            case 'GET /jwks':
+                sendJson(res, 200, { keys: [jwk] });
+                return true;
+            case 'GET /authorize':
+            case 'GET /authorize/approve': {
+                const problem = validateAuthorizeParams(url.searchParams);
+                if (problem) {
+                    authorizeError(res, problem);
+                } else if (route === 'GET /authorize') {
+                    renderChooser(res, url.searchParams);
+                } else {
+                    approve(res, url.searchParams);
+                }
+                return true;
+            }
+            case 'POST /token':
+                await token(req, res);
+                return true;
+            default:
+                return false;
+        }
+    };
+
+    return { handle };
+};
@@ -0,0 +1,167 @@
+import { createPublicKey, verify, JsonWebKey } from 'node:crypto';
+import { AuthError } from './authStore';
+import { MOCK_CLIENT_ID } from './mockIdentityProvider';
+
+// Server side of social sign-in: provider configuration, discovery, the authorization-code
+// exchange and ID token verification. The browser only ever sees public provider settings.
+
+export interface OidcProviderConfig {
+    id: string;
+    label: string;
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+    scope: string;
+}
+
+export interface IdTokenClaims {
+    iss: string;
+    sub: string;
+    aud: string | string[];
+    exp: number;
+    nonce?: string;
+    name?: string;
+    email?: string;
+    picture?: string;
+}
+
+interface DiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+const DEFAULT_SCOPE = 'openid profile email';
+
+const knownProviders = [
+    { id: 'google', label: 'Google', issuer: 'https://accounts.google.com' },
+    { id: 'facebook', label: 'Facebook', issuer: 'https://www.facebook.com' },
+    { id: 'apple', label: 'Apple', issuer: 'https://appleid.apple.com' },
+];
+
+// Providers come from OIDC_PROVIDERS (a JSON array of OidcProviderConfig) when set. Otherwise each
+// known provider reads OIDC_<ID>_CLIENT_ID, _CLIENT_SECRET, _ISSUER and _SCOPE, and any provider
+// without a client ID is served by the local mock identity provider for development.
+export const loadProviderConfigs = (mockIssuer: string): OidcProviderConfig[] => {
+    if (process.env.OIDC_PROVIDERS) {
+        return JSON.parse(process.env.OIDC_PROVIDERS);
+    }
+    return knownProviders.map(({ id, label, issuer }) => {
+        const env = (name: string) => process.env[`OIDC_${id.toUpperCase()}_${name}`];
+        const clientId = env('CLIENT_ID');
+        if (!clientId) {
+            return { id, label, issuer: mockIssuer, clientId: MOCK_CLIENT_ID, scope: DEFAULT_SCOPE };
+        }
+        return {
+            id,
+            label,
+            issuer: env('ISSUER') ?? issuer,
+            clientId,
+            clientSecret: env('CLIENT_SECRET'),
+            scope: env('SCOPE') ?? DEFAULT_SCOPE,
+        };
+    });
+};
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(url, init);
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new AuthError(502, `Identity provider request failed: ${body.error_description ?? body.error ?? response.status}`);
+    }
+    return body as T;
+};
+
+const discoveryCache = new Map<string, Promise<DiscoveryDocument>>();
+const jwksCache = new Map<string, Promise<{ keys: (JsonWebKey & { kid?: string })[] }>>();
+
+export const discover = (issuer: string): Promise<DiscoveryDocument> => {
+    let cached = discoveryCache.get(issuer);
+    if (!cached) {
+        cached = fetchJson<DiscoveryDocument>(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+        // Do not cache failures; the provider may simply not be up yet.
+        cached.catch(() => discoveryCache.delete(issuer));
+        discoveryCache.set(issuer, cached);
+    }
+    return cached;
+};
+
+const findSigningKey = async (jwksUri: string, kid: string | undefined) => {
+    let jwks = jwksCache.get(jwksUri);
+    if (!jwks) {
+        jwks = fetchJson(jwksUri);
+        jwks.catch(() => jwksCache.delete(jwksUri));
+        jwksCache.set(jwksUri, jwks);
+    }
+    const { keys } = await jwks;
+    const key = keys.find(k => k.kid === kid);
+    if (!key) {
+        // The provider may have rotated its keys since we cached them.
+        jwksCache.delete(jwksUri);
+        throw new AuthError(401, 'ID token was signed with an unknown key.');
+    }
+    return createPublicKey({ key, format: 'jwk' });
+};
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+export const verifyIdToken = async (
+    provider: OidcProviderConfig,
+    idToken: string,
+    expectedNonce: string
+): Promise<IdTokenClaims> => {
+    const [headerSegment, payloadSegment, signatureSegment] = idToken.split('.');
+    if (!headerSegment || !payloadSegment || !signatureSegment) {
+        throw new AuthError(401, 'Malformed ID token.');
+    }
+    const header = decodeSegment(headerSegment);
+    if (header.alg !== 'RS256') {
+        throw new AuthError(401, `Unsupported ID token algorithm: ${header.alg}.`);
+    }
+    const discovery = await discover(provider.issuer);
+    const key = await findSigningKey(discovery.jwks_uri, header.kid);
+    const signedData = Buffer.from(`${headerSegment}.${payloadSegment}`);
+    if (!verify('RSA-SHA256', signedData, key, Buffer.from(signatureSegment, 'base64url'))) {
+        throw new AuthError(401, 'ID token signature is invalid.');
+    }
+
+    const claims: IdTokenClaims = decodeSegment(payloadSegment);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== discovery.issuer || !audiences.includes(provider.clientId)) {
+        throw new AuthError(401, 'ID token was not issued for this application.');
+    }
+    if (claims.exp * 1000 <= Date.now()) {
+        throw new AuthError(401, 'ID token has expired.');
+    }
+    if (claims.nonce !== expectedNonce) {
+        throw new AuthError(401, 'ID token nonce does not match this sign-in attempt.');
+    }
+    return claims;
+};
+
+export const exchangeCode = async (
+    provider: OidcProviderConfig,
+    params: { code: string; codeVerifier: string; redirectUri: string }
+): Promise<string> => {
+    const discovery = await discover(provider.issuer);
+    const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: params.code,
+        redirect_uri: params.redirectUri,
+        client_id: provider.clientId,
+        code_verifier: params.codeVerifier,
+    });
+    if (provider.clientSecret) {
+        body.set('client_secret', provider.clientSecret);
+    }
+    const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body,
+    });
+    if (!tokens.id_token) {
+        throw new AuthError(502, 'Identity provider did not return an ID token.');
+    }
+    return tokens.id_token;
+};
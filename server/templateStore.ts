@@ -0,0 +1,79 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { AuthError } from './authStore';
+
+// The school's subject and task template registry (see services/templateRegistry.ts for the
+// format). The server checks the outline, refuses a save based on an outdated revision and keeps
+// the earlier revisions; the editor in the app validates the details.
+
+const SCHEMA_VERSION = 1;
+// Oldest revisions are dropped beyond this many, to keep the data file small.
+const MAX_HISTORY = 50;
+
+export interface StoredTemplateRegistry {
+    schemaVersion: number;
+    // Incremented on every save so clients can tell which revision they are looking at.
+    revision: number;
+    updatedAt: number;
+    updatedBy: string;
+    subjects: unknown[];
+    tasks: unknown[];
+    pairs: unknown[];
+}
+
+interface TemplateData {
+    current: StoredTemplateRegistry | null;
+    // Earlier revisions, oldest first.
+    history: StoredTemplateRegistry[];
+}
+
+const isNamedList = (value: unknown): value is { name: unknown }[] =>
+    Array.isArray(value) && value.every(item => item && typeof item === 'object' && typeof (item as { name: unknown }).name === 'string');
+
+export const createTemplateStore = async (dataFile: string) => {
+    let data: TemplateData;
+    try {
+        const saved = JSON.parse(await readFile(dataFile, 'utf8'));
+        // Files written before history was kept hold just the registry.
+        data = 'current' in saved ? saved : { current: saved, history: [] };
+    } catch {
+        data = { current: null, history: [] };
+    }
+
+    return {
+        get: (): StoredTemplateRegistry | null => data.current,
+
+        // `candidate.revision` is the revision the admin's edits started from.
+        save: async (candidate: unknown, username: string): Promise<StoredTemplateRegistry> => {
+            const { schemaVersion, revision, subjects, tasks, pairs = [] } = (candidate ?? {}) as Record<string, unknown>;
+            const currentRevision = data.current?.revision ?? 0;
+            if (revision !== currentRevision) {
+                throw new AuthError(409, `Someone else saved the templates (now revision ${currentRevision}) since you started editing. Reload the page and make your changes again.`);
+            }
+            if (schemaVersion !== SCHEMA_VERSION) {
+                throw new AuthError(400, `Unsupported template schema version; expected ${SCHEMA_VERSION}.`);
+            }
+            if (!isNamedList(subjects) || !isNamedList(tasks) || subjects.length === 0 || tasks.length === 0 || !Array.isArray(pairs)) {
+                throw new AuthError(400, 'Templates need at least one named subject and one named task.');
+            }
+            const registry: StoredTemplateRegistry = {
+                schemaVersion,
+                revision: currentRevision + 1,
+                updatedAt: Date.now(),
+                updatedBy: username,
+                subjects,
+                tasks,
+                pairs,
+            };
+            if (data.current) {
+                data.history = [...data.history, data.current].slice(-MAX_HISTORY);
+            }
+            data.current = registry;
+            await mkdir(path.dirname(dataFile), { recursive: true });
+            await writeFile(dataFile, JSON.stringify(data, null, 2));
+            return registry;
+        },
+    };
+};
+
+export type TemplateStore = Awaited<ReturnType<typeof createTemplateStore>>;
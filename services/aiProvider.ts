@@ -0,0 +1,72 @@
+import type { Content, LiveConnectConfig, LiveSendRealtimeInputParameters, LiveServerMessage, Part } from '@google/genai';
+import type { StepSolution } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+export interface InlineMedia {
+    mimeType: string;
+    data: string;
+}
+
+// A still from a video and its position in the video, in seconds.
+export interface VideoFrame {
+    time: number;
+    image: InlineMedia;
+}
+
+// A file shared with the Media Analyzer, in the form sent to the model. Documents are PDFs, sent
+// as rendered pages plus their text (`pageCount` is the whole document's), or text files.
+export type AnalysisFile =
+    | { name: string; kind: 'image'; image: InlineMedia }
+    | { name: string; kind: 'video'; frames: VideoFrame[] }
+    | { name: string; kind: 'document'; pages: InlineMedia[]; text: string; pageCount: number };
+
+// A chat turn: plain text, or text together with inline image and document parts.
+export type ChatPrompt = string | Part[];
+
+export interface LiveSessionCallbacks {
+    onopen?: () => void;
+    onmessage: (message: LiveServerMessage) => void;
+    onerror?: (e: ErrorEvent) => void;
+    onclose?: (e: CloseEvent) => void;
+}
+
+export interface LiveConnectOptions {
+    config: LiveConnectConfig;
+    callbacks: LiveSessionCallbacks;
+}
+
+export interface LiveSessionHandle {
+    sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+    close: () => void;
+}
+
+// Everything the UI needs from a model backend. Components talk to `aiProvider`
+// only, so the whole app can run against the offline mock as well as Gemini.
+export interface AIProvider {
+    // Shown in the sidebar footer ("Powered by ...").
+    label: string;
+    generateText: (prompt: ChatPrompt, history: Content[], useLiteModel: boolean) => Promise<string>;
+    // `systemInstruction` is added to the backend's own chat instruction, e.g. to enable tutor mode.
+    generateTextStream: (prompt: ChatPrompt, history: Content[], useLiteModel: boolean, signal?: AbortSignal, systemInstruction?: string) => AsyncGenerator<string>;
+    // A structured solution for the 'steps' output format; resolves to null if the signal aborts it.
+    generateStepSolution: (prompt: ChatPrompt, history: Content[], useLiteModel: boolean, signal?: AbortSignal, systemInstruction?: string) => Promise<StepSolution | null>;
+    generateConversationTitle: (userText: string, modelText: string) => Promise<string>;
+    // Questions about uploaded files, which the prompt can refer to by name. `history` holds the
+    // earlier text turns of the same analysis; the files are resent with every question, ahead of the first one.
+    generateTextAndFiles: (prompt: string, files: AnalysisFile[], history?: Content[]) => Promise<string>;
+    connectLive: (options: LiveConnectOptions) => Promise<LiveSessionHandle>;
+}
+
+export type AIProviderName = 'gemini' | 'mock';
+
+// AI_PROVIDER picks the backend explicitly; without it we fall back to the mock when no API key is configured.
+const resolveProviderName = (): AIProviderName => {
+    const configured = process.env.AI_PROVIDER;
+    if (configured === 'gemini' || configured === 'mock') {
+        return configured;
+    }
+    return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+export const aiProvider: AIProvider = resolveProviderName() === 'mock' ? mockProvider : geminiProvider;
@@ -0,0 +1,45 @@
+import type { AttachmentPart } from '../types';
+import { prepareImage, readAsBase64 } from './mediaPreprocessing';
+
+// Turns files the student pastes, drops or picks in the chat into inline attachment parts.
+// Photos are downscaled before they are stored, which keeps conversations within the browser's
+// storage quota (see mediaPreprocessing.ts, which also strips their metadata).
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+const MAX_DOCUMENT_BYTES = 2 * 1024 * 1024;
+// Longest edge after downscaling; enough to read a photographed worksheet.
+const MAX_IMAGE_DIMENSION = 1600;
+
+const DOCUMENT_TYPES = ['application/pdf', 'text/plain', 'text/markdown', 'text/csv'];
+// Browsers often leave the type of Markdown and CSV files empty.
+const DOCUMENT_EXTENSIONS: Record<string, string> = { md: 'text/markdown', csv: 'text/csv', txt: 'text/plain', pdf: 'application/pdf' };
+
+// For the file picker's `accept` attribute.
+export const ACCEPTED_ATTACHMENT_TYPES = ['image/*', ...DOCUMENT_TYPES, ...Object.keys(DOCUMENT_EXTENSIONS).map(ext => `.${ext}`)].join(',');
+
+export const isImageAttachment = (part: AttachmentPart) => part.inlineData.mimeType.startsWith('image/');
+
+export const attachmentDataUrl = (part: AttachmentPart) => `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+
+const documentType = (file: File): string | null => {
+    if (DOCUMENT_TYPES.includes(file.type)) return file.type;
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return DOCUMENT_EXTENSIONS[extension] ?? null;
+};
+
+// Throws an Error with a message suitable for showing to the student.
+export const readAttachment = async (file: File): Promise<AttachmentPart> => {
+    const fileName = file.name || 'pasted image';
+    if (file.type.startsWith('image/')) {
+        const { image } = await prepareImage(file, { maxDimension: MAX_IMAGE_DIMENSION });
+        return { inlineData: image, fileName };
+    }
+    const mimeType = documentType(file);
+    if (!mimeType) {
+        throw new Error(`"${fileName}" is not supported. Attach an image, a PDF or a text file.`);
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+        throw new Error(`"${fileName}" is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB.`);
+    }
+    return { inlineData: { mimeType, data: await readAsBase64(file) }, fileName };
+};
@@ -0,0 +1,165 @@
+import type { Blob } from '@google/genai';
+
+// Microphone capture shared by every feature that streams speech to a Live API session.
+// An AudioWorklet resamples the microphone to 16 kHz mono and converts it to clamped
+// 16-bit PCM off the main thread; consumers just receive ready-to-send chunks.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+const DEFAULT_CHUNK_MS = 100;
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+// Kept as a string so the worklet can be loaded from a Blob URL without a separate build entry.
+const workletSource = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    this.step = sampleRate / targetSampleRate;
+    // Fractional read position relative to the current block; -1 is the last sample of the previous block.
+    this.position = 0;
+    this.previous = 0;
+    this.chunk = new Int16Array(chunkSize);
+    this.length = 0;
+    this.paused = false;
+    this.port.onmessage = (event) => {
+      if (event.data === 'pause') this.paused = true;
+      if (event.data === 'resume') this.paused = false;
+    };
+  }
+
+  push(value) {
+    const clamped = Math.max(-1, Math.min(1, value));
+    this.chunk[this.length++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (this.length === this.chunk.length) {
+      const out = this.chunk;
+      this.port.postMessage(out, [out.buffer]);
+      this.chunk = new Int16Array(out.length);
+      this.length = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel || channel.length === 0 || this.paused) return true;
+    let position = this.position;
+    const last = channel.length - 1;
+    while (position < last) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const a = index < 0 ? this.previous : channel[index];
+      const b = channel[index + 1];
+      this.push(a + (b - a) * fraction);
+      position += this.step;
+    }
+    this.position = position - channel.length;
+    this.previous = channel[last];
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+
+const getWorkletUrl = (): string => {
+    if (!workletUrl) {
+        workletUrl = URL.createObjectURL(new window.Blob([workletSource], { type: 'application/javascript' }));
+    }
+    return workletUrl;
+};
+
+export interface MicrophoneCaptureOptions {
+    // Receives each chunk of 16 kHz mono PCM as it becomes available.
+    onChunk: (pcm: Int16Array) => void;
+    chunkDurationMs?: number;
+}
+
+export interface MicrophoneCapture {
+    readonly isPaused: boolean;
+    pause: () => void;
+    resume: () => void;
+    stop: () => void;
+}
+
+export const encodeBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const len = bytes.byteLength;
+    for (let i = 0; i < len; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+// Wraps a captured chunk in the blob format expected by `sendRealtimeInput`.
+export const createPcmBlob = (pcm: Int16Array): Blob => ({
+    data: encodeBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+    mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
+});
+
+export const startMicrophoneCapture = async ({
+    onChunk,
+    chunkDurationMs = DEFAULT_CHUNK_MS,
+}: MicrophoneCaptureOptions): Promise<MicrophoneCapture> => {
+    const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+    });
+    // The context runs at the device rate; resampling happens in the worklet because some
+    // browsers refuse to connect a microphone to a context with a different sample rate.
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+
+    let node: AudioWorkletNode;
+    let source: MediaStreamAudioSourceNode;
+    try {
+        await audioContext.audioWorklet.addModule(getWorkletUrl());
+        source = audioContext.createMediaStreamSource(stream);
+        node = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+            numberOfInputs: 1,
+            numberOfOutputs: 1,
+            channelCount: 1,
+            processorOptions: {
+                targetSampleRate: CAPTURE_SAMPLE_RATE,
+                chunkSize: Math.round((CAPTURE_SAMPLE_RATE * chunkDurationMs) / 1000),
+            },
+        });
+    } catch (error) {
+        stream.getTracks().forEach(track => track.stop());
+        audioContext.close();
+        throw error;
+    }
+
+    node.port.onmessage = (event: MessageEvent<Int16Array>) => onChunk(event.data);
+    source.connect(node);
+    // The worklet writes silence; connecting it keeps the graph pulling audio through it.
+    node.connect(audioContext.destination);
+
+    let isPaused = false;
+    let isStopped = false;
+
+    return {
+        get isPaused() {
+            return isPaused;
+        },
+        pause: () => {
+            if (isStopped || isPaused) return;
+            isPaused = true;
+            node.port.postMessage('pause');
+        },
+        resume: () => {
+            if (isStopped || !isPaused) return;
+            isPaused = false;
+            node.port.postMessage('resume');
+        },
+        stop: () => {
+            if (isStopped) return;
+            isStopped = true;
+            node.port.onmessage = null;
+            source.disconnect();
+            node.disconnect();
+            stream.getTracks().forEach(track => track.stop());
+            if (audioContext.state !== 'closed') {
+                audioContext.close();
+            }
+        },
+    };
+};
@@ -0,0 +1,80 @@
+// Plays the 24 kHz mono PCM audio that Live API sessions reply with. Chunks are queued back to
+// back so a reply that arrives in pieces sounds continuous, and every scheduled chunk is tracked
+// so a reply can be cut off when the student interrupts it.
+
+export const PLAYBACK_SAMPLE_RATE = 24000;
+
+export interface AudioPlayer {
+    // Queues one base64-encoded chunk of 16-bit PCM after whatever is already playing.
+    enqueue: (base64: string) => void;
+    // Stops whatever is playing, drops everything scheduled and resets the playback clock.
+    flush: () => void;
+    readonly isPlaying: boolean;
+    close: () => void;
+}
+
+const decode = (base64: string): Uint8Array => {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+};
+
+const decodeAudioData = (data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): AudioBuffer => {
+    const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+    const frameCount = Math.floor(dataInt16.length / numChannels);
+    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+    for (let channel = 0; channel < numChannels; channel++) {
+        const channelData = buffer.getChannelData(channel);
+        for (let i = 0; i < frameCount; i++) {
+            channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+        }
+    }
+    return buffer;
+};
+
+export const createAudioPlayer = (): AudioPlayer => {
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: PLAYBACK_SAMPLE_RATE });
+    const output = context.createGain();
+    output.connect(context.destination);
+    let nextStartTime = 0;
+    const sources = new Set<AudioBufferSourceNode>();
+
+    const flush = () => {
+        for (const source of sources) {
+            source.onended = null;
+            try {
+                source.stop();
+            } catch {
+                // Already stopped.
+            }
+        }
+        sources.clear();
+        nextStartTime = 0;
+    };
+
+    return {
+        enqueue: (base64) => {
+            if (context.state === 'closed') return;
+            const audioBuffer = decodeAudioData(decode(base64), context, PLAYBACK_SAMPLE_RATE, 1);
+            nextStartTime = Math.max(nextStartTime, context.currentTime);
+            const source = context.createBufferSource();
+            source.buffer = audioBuffer;
+            source.connect(output);
+            source.onended = () => sources.delete(source);
+            sources.add(source);
+            source.start(nextStartTime);
+            nextStartTime += audioBuffer.duration;
+        },
+        flush,
+        get isPlaying() {
+            return sources.size > 0;
+        },
+        close: () => {
+            flush();
+            if (context.state !== 'closed') context.close();
+        },
+    };
+};
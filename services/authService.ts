@@ -0,0 +1,194 @@
+import type { AuthUser } from '../types';
+
+// Client for the local auth server (server/authServer.ts). Tokens are kept in localStorage
+// so a signed-in student stays signed in across reloads until the refresh token expires.
+
+const TOKENS_KEY = 'chatgps-auth-tokens';
+// Refresh the access token this long before it expires.
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface SessionTokens {
+    accessToken: string;
+    refreshToken: string;
+    expiresAt: number;
+    user: AuthUser;
+}
+
+export class AuthRequestError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'AuthRequestError';
+    }
+}
+
+const loadTokens = (): SessionTokens | null => {
+    try {
+        const saved = localStorage.getItem(TOKENS_KEY);
+        return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+        console.error("Failed to load session from localStorage", error);
+        return null;
+    }
+};
+
+const saveTokens = (tokens: SessionTokens | null) => {
+    if (tokens) {
+        localStorage.setItem(TOKENS_KEY, JSON.stringify(tokens));
+    } else {
+        localStorage.removeItem(TOKENS_KEY);
+    }
+};
+
+interface RequestOptions {
+    method?: string;
+    body?: unknown;
+    accessToken?: string;
+}
+
+const apiRequest = async <T>(url: string, options: RequestOptions = {}): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: options.method ?? 'POST',
+            headers: {
+                ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+                ...(options.accessToken ? { Authorization: `Bearer ${options.accessToken}` } : {}),
+            },
+            body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        });
+    } catch {
+        throw new AuthRequestError(0, 'Could not reach the sign-in server. Please try again later.');
+    }
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new AuthRequestError(response.status, body.error ?? 'Authentication failed.');
+    }
+    return body as T;
+};
+
+export const authRequest = <T>(path: string, options: RequestOptions = {}): Promise<T> => apiRequest<T>(`/api/auth${path}`, options);
+
+// Stores a freshly issued token pair and returns the signed-in user.
+export const startSession = (tokens: SessionTokens): AuthUser => {
+    saveTokens(tokens);
+    return tokens.user;
+};
+
+export const login = async (username: string, password: string): Promise<AuthUser> =>
+    startSession(await authRequest<SessionTokens>('/login', { body: { username, password } }));
+
+export const register = async (username: string, password: string): Promise<AuthUser> =>
+    startSession(await authRequest<SessionTokens>('/register', { body: { username, password } }));
+
+export const logout = async () => {
+    const tokens = loadTokens();
+    saveTokens(null);
+    if (tokens) {
+        await authRequest('/logout', { body: { refreshToken: tokens.refreshToken } }).catch(error => {
+            console.error('Failed to revoke session:', error);
+        });
+    }
+};
+
+// Refresh tokens are single-use, so concurrent callers (the keep-alive timer, a retried request,
+// StrictMode's second session check) all wait on the same refresh instead of racing each other.
+let refreshInFlight: Promise<AuthUser | null> | null = null;
+
+const refreshSession = (): Promise<AuthUser | null> => {
+    if (!refreshInFlight) {
+        refreshInFlight = runRefresh().finally(() => {
+            refreshInFlight = null;
+        });
+    }
+    return refreshInFlight;
+};
+
+const runRefresh = async (): Promise<AuthUser | null> => {
+    const tokens = loadTokens();
+    if (!tokens) return null;
+    try {
+        return startSession(await authRequest<SessionTokens>('/refresh', { body: { refreshToken: tokens.refreshToken } }));
+    } catch (error) {
+        // Only drop the stored session when the server rejected it, not when it was unreachable,
+        // and not when another tab has already replaced the rejected token with a new one.
+        if (error instanceof AuthRequestError && error.status === 401 && loadTokens()?.refreshToken === tokens.refreshToken) {
+            saveTokens(null);
+        }
+        throw error;
+    }
+};
+
+// Validates the stored session with the server, refreshing it if the access token has expired.
+export const restoreSession = async (): Promise<AuthUser | null> => {
+    const tokens = loadTokens();
+    if (!tokens) return null;
+    try {
+        const { user } = await authRequest<{ user: AuthUser }>('/session', { method: 'GET', accessToken: tokens.accessToken });
+        return user;
+    } catch (error) {
+        if (!(error instanceof AuthRequestError) || error.status !== 401) {
+            console.error('Failed to validate session:', error);
+            return null;
+        }
+    }
+    try {
+        return await refreshSession();
+    } catch {
+        return null;
+    }
+};
+
+// Refreshes the access token shortly before it expires for as long as the app is open.
+// Calls `onExpired` if the server rejects the refresh; returns a cleanup function.
+export const keepSessionAlive = (onExpired: () => void): (() => void) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const schedule = () => {
+        const tokens = loadTokens();
+        if (!tokens || cancelled) return;
+        const delay = Math.max(tokens.expiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+        timer = setTimeout(async () => {
+            try {
+                await refreshSession();
+                schedule();
+            } catch (error) {
+                if (error instanceof AuthRequestError && error.status === 401) {
+                    if (!cancelled) onExpired();
+                } else {
+                    // Server unreachable: try again later without signing the user out.
+                    timer = setTimeout(schedule, REFRESH_MARGIN_MS);
+                }
+            }
+        }, delay);
+    };
+
+    schedule();
+    return () => {
+        cancelled = true;
+        clearTimeout(timer);
+    };
+};
+
+// Calls an API route as the signed-in user, refreshing the access token once if it has expired.
+export const authorizedRequest = async <T>(url: string, options: Omit<RequestOptions, 'accessToken'> = {}): Promise<T> => {
+    const tokens = loadTokens();
+    if (!tokens) {
+        throw new AuthRequestError(401, 'You are not signed in.');
+    }
+    try {
+        return await apiRequest<T>(url, { ...options, accessToken: tokens.accessToken });
+    } catch (error) {
+        if (!(error instanceof AuthRequestError) || error.status !== 401) throw error;
+    }
+    await refreshSession();
+    return apiRequest<T>(url, { ...options, accessToken: loadTokens()?.accessToken });
+};
+
+export const requestPasswordReset = async (username: string) => {
+    await authRequest('/password-reset/request', { body: { username } });
+};
+
+export const resetPassword = async (token: string, newPassword: string) => {
+    await authRequest('/password-reset/confirm', { body: { token, newPassword } });
+};
@@ -0,0 +1,134 @@
+import type { InlineMedia } from './aiProvider';
+
+// Camera access for photographing homework. Photos are taken at the camera's full resolution
+// and handed on as ordinary image files, so they go through the same preprocessing as uploads;
+// live frames for a voice session are downscaled JPEGs sent straight to the Live API.
+
+export type CameraFacing = 'environment' | 'user';
+
+// A region of a photo as fractions of its width and height.
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// Crops smaller than this fraction of the photo are treated as accidental clicks.
+export const MIN_CROP_FRACTION = 0.05;
+
+const LIVE_FRAME_INTERVAL_MS = 1000;
+const LIVE_FRAME_MAX_DIMENSION = 768;
+const LIVE_FRAME_QUALITY = 0.7;
+const PHOTO_QUALITY = 0.92;
+
+export const isCameraSupported = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// Phones default to the rear camera, which is the one pointed at a worksheet.
+export const startCamera = async (facing: CameraFacing = 'environment'): Promise<MediaStream> => {
+    if (!isCameraSupported()) {
+        throw new Error('This browser cannot use a camera.');
+    }
+    try {
+        return await navigator.mediaDevices.getUserMedia({
+            video: { facingMode: { ideal: facing }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+            audio: false,
+        });
+    } catch (error) {
+        const name = (error as DOMException).name;
+        if (name === 'NotAllowedError' || name === 'SecurityError') {
+            throw new Error('Camera access was blocked. Allow the camera in your browser settings and try again.');
+        }
+        if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+            throw new Error('No camera was found on this device.');
+        }
+        throw error;
+    }
+};
+
+export const stopStream = (stream: MediaStream | null) => {
+    stream?.getTracks().forEach(track => track.stop());
+};
+
+// Orders the corners of a dragged rectangle and keeps it inside the photo.
+export const normalizeCrop = (startX: number, startY: number, endX: number, endY: number): CropRect => {
+    const clamp = (value: number) => Math.max(0, Math.min(1, value));
+    const x = clamp(Math.min(startX, endX));
+    const y = clamp(Math.min(startY, endY));
+    return { x, y, width: clamp(Math.max(startX, endX)) - x, height: clamp(Math.max(startY, endY)) - y };
+};
+
+export const isUsefulCrop = (crop: CropRect) => crop.width >= MIN_CROP_FRACTION && crop.height >= MIN_CROP_FRACTION;
+
+// Draws `crop` of the current video frame (or a still) onto a canvas no larger than `maxDimension`.
+const drawRegion = (source: HTMLVideoElement | HTMLCanvasElement, crop: CropRect, maxDimension = Infinity): HTMLCanvasElement => {
+    const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+    const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+    if (!sourceWidth || !sourceHeight) {
+        throw new Error('The camera has not started yet.');
+    }
+    const sx = Math.round(crop.x * sourceWidth);
+    const sy = Math.round(crop.y * sourceHeight);
+    const sw = Math.max(1, Math.round(crop.width * sourceWidth));
+    const sh = Math.max(1, Math.round(crop.height * sourceHeight));
+    const scale = Math.min(1, maxDimension / Math.max(sw, sh));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(sw * scale);
+    canvas.height = Math.round(sh * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Could not get canvas context.');
+    }
+    context.drawImage(source, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+// Freezes the current camera frame at full resolution.
+export const snapshot = (video: HTMLVideoElement): HTMLCanvasElement => drawRegion(video, FULL_FRAME);
+
+export const photoFileName = (date = new Date()) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `camera-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}.jpg`;
+};
+
+// Turns a snapshot, cropped to `crop`, into a JPEG file.
+export const snapshotToFile = async (still: HTMLCanvasElement, crop: CropRect = FULL_FRAME): Promise<File> => {
+    const canvas = drawRegion(still, crop);
+    const blob = await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(result => (result ? resolve(result) : reject(new Error('The photo could not be saved.'))), 'image/jpeg', PHOTO_QUALITY));
+    return new File([blob], photoFileName(), { type: 'image/jpeg' });
+};
+
+// The current frame, downscaled for streaming into a Live API session.
+const grabLiveFrame = (video: HTMLVideoElement, maxDimension = LIVE_FRAME_MAX_DIMENSION): InlineMedia => ({
+    mimeType: 'image/jpeg',
+    data: drawRegion(video, FULL_FRAME, maxDimension).toDataURL('image/jpeg', LIVE_FRAME_QUALITY).split(',')[1],
+});
+
+export interface FrameStreamOptions {
+    intervalMs?: number;
+    maxDimension?: number;
+}
+
+// Calls `onFrame` with a frame from `video` every `intervalMs` until the returned function is
+// called. Frames identical to the previous one are skipped, which keeps a still screen or page
+// from costing anything.
+export const streamFrames = (
+    video: HTMLVideoElement,
+    onFrame: (frame: InlineMedia) => void,
+    { intervalMs = LIVE_FRAME_INTERVAL_MS, maxDimension = LIVE_FRAME_MAX_DIMENSION }: FrameStreamOptions = {},
+): (() => void) => {
+    let previous = '';
+    const send = () => {
+        if (!video.videoWidth) return;
+        const frame = grabLiveFrame(video, maxDimension);
+        if (frame.data === previous) return;
+        previous = frame.data;
+        onFrame(frame);
+    };
+    send();
+    const timer = setInterval(send, intervalMs);
+    return () => clearInterval(timer);
+};
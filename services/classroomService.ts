@@ -0,0 +1,114 @@
+import type { Conversation } from '../types';
+import { authorizedRequest } from './authService';
+import { isAttachment } from './conversationStore';
+
+// Client for the classroom routes of the auth server (server/classroomRoutes.ts): usage
+// reporting, conversation flags and class invitations for students, rosters and analytics for
+// teachers.
+
+export type UsageFeature = 'chat' | 'media' | 'live' | 'transcribe';
+
+export interface TutorLock {
+    allSubjects: boolean;
+    subjects: string[];
+}
+
+export const NO_TUTOR_LOCK: TutorLock = { allSubjects: false, subjects: [] };
+
+export const isTutorLocked = (lock: TutorLock, subject: string) => lock.allSubjects || lock.subjects.includes(subject);
+
+export interface Classroom {
+    id: string;
+    name: string;
+    teacher: string;
+    students: string[];
+    // Invited students who have not answered yet.
+    invited?: string[];
+    tutorLock?: TutorLock;
+    createdAt: number;
+}
+
+export interface ClassInvite {
+    classId: string;
+    className: string;
+    teacher: string;
+}
+
+export interface StudentUsage {
+    username: string;
+    displayName?: string;
+    total: number;
+    byFeature: Record<string, number>;
+    bySubject: Record<string, number>;
+    byTask: Record<string, number>;
+    lastActiveAt: number | null;
+}
+
+export interface FlaggedConversation {
+    id: string;
+    username: string;
+    conversationId: string;
+    title: string;
+    subject: string;
+    problemType: string;
+    reason: string;
+    messages: { role: 'user' | 'model'; text: string }[];
+    createdAt: number;
+}
+
+// Fire-and-forget: analytics must never get in the way of the student's work.
+export const recordUsage = (feature: UsageFeature, context: { subject?: string; problemType?: string } = {}) => {
+    authorizedRequest('/api/usage', { body: { feature, ...context } }).catch(error => {
+        console.warn('Failed to record usage:', error);
+    });
+};
+
+// Resolves to the number of classes whose teachers can now see the conversation.
+export const flagConversation = async (conversation: Conversation, reason: string): Promise<number> => {
+    const { classCount } = await authorizedRequest<{ classCount: number }>('/api/flags', {
+        body: {
+            conversationId: conversation.id,
+            title: conversation.title,
+            subject: conversation.subject,
+            problemType: conversation.problemType,
+            reason,
+            messages: conversation.messages.map(message => ({
+                role: message.role,
+                text: message.parts.map(part => (isAttachment(part) ? `[Attached: ${part.fileName}]\n` : part.text)).join(''),
+            })),
+        },
+    });
+    return classCount;
+};
+
+// Tutor mode settings the signed-in student's teachers have locked on.
+export const fetchTutorLock = (): Promise<TutorLock> => authorizedRequest<TutorLock>('/api/tutor-lock', { method: 'GET' });
+
+export const setTutorLock = (classId: string, tutorLock: TutorLock): Promise<Classroom> =>
+    authorizedRequest<Classroom>(`/api/classes/${encodeURIComponent(classId)}/tutor-lock`, { method: 'PUT', body: tutorLock });
+
+export const fetchClasses = async (): Promise<Classroom[]> =>
+    (await authorizedRequest<{ classes: Classroom[] }>('/api/classes', { method: 'GET' })).classes;
+
+export const createClass = (name: string): Promise<Classroom> =>
+    authorizedRequest<Classroom>('/api/classes', { body: { name } });
+
+// The student joins only once they accept; until then the teacher sees nothing of theirs.
+export const inviteStudent = (classId: string, username: string): Promise<Classroom> =>
+    authorizedRequest<Classroom>(`/api/classes/${encodeURIComponent(classId)}/students`, { body: { username } });
+
+export const removeStudent = (classId: string, username: string): Promise<Classroom> =>
+    authorizedRequest<Classroom>(`/api/classes/${encodeURIComponent(classId)}/students/${encodeURIComponent(username)}`, { method: 'DELETE' });
+
+export const fetchClassInvites = async (): Promise<ClassInvite[]> =>
+    (await authorizedRequest<{ invites: ClassInvite[] }>('/api/invites', { method: 'GET' })).invites;
+
+export const respondToClassInvite = async (classId: string, accept: boolean) => {
+    await authorizedRequest('/api/invites/respond', { body: { classId, accept } });
+};
+
+export const fetchClassUsage = async (classId: string): Promise<StudentUsage[]> =>
+    (await authorizedRequest<{ students: StudentUsage[] }>(`/api/classes/${encodeURIComponent(classId)}/usage`, { method: 'GET' })).students;
+
+export const fetchClassFlags = async (classId: string): Promise<FlaggedConversation[]> =>
+    (await authorizedRequest<{ flags: FlaggedConversation[] }>(`/api/classes/${encodeURIComponent(classId)}/flags`, { method: 'GET' })).flags;
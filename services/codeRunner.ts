@@ -0,0 +1,197 @@
+import workerUrl from './codeRunner.worker.ts?worker&url';
+
+// Runs student and model code in a throwaway Web Worker so a "Debug Code" fix can be demonstrated.
+// Workers have no DOM, and the page terminates the worker once the time limit is up, which also
+// stops infinite loops. The network is shut off by the browser rather than by the worker: see
+// startSandboxedWorker.
+
+export type RunLanguage = 'javascript' | 'python';
+
+export interface CodeSnippet {
+    code: string;
+    language: RunLanguage;
+}
+
+export interface RunResult {
+    status: 'ok' | 'error' | 'timeout';
+    stdout: string;
+    stderr: string;
+    // Time spent running the code, not loading the interpreter.
+    durationMs: number;
+}
+
+export interface RunnerRequest {
+    language: RunLanguage;
+    code: string;
+}
+
+export type RunnerMessage =
+    | { type: 'started' }
+    | { type: 'output'; stream: 'stdout' | 'stderr'; text: string }
+    | { type: 'done'; ok: boolean };
+
+export const RUN_TIME_LIMIT_MS = 5000;
+// Python's interpreter is a large WASM download on first use, so loading gets far more time than running.
+const INTERPRETER_LOAD_LIMIT_MS = 60000;
+
+export const LANGUAGE_LABELS: Record<RunLanguage, string> = {
+    javascript: 'JavaScript',
+    python: 'Python',
+};
+
+const LANGUAGE_TAGS: Record<string, RunLanguage> = {
+    js: 'javascript',
+    javascript: 'javascript',
+    mjs: 'javascript',
+    node: 'javascript',
+    py: 'python',
+    python: 'python',
+    python3: 'python',
+};
+
+// A best guess for code without a language tag; null when it does not look like either language.
+export const detectLanguage = (code: string): RunLanguage | null => {
+    if (/^\s*(def |class \w+.*:\s*$|from [\w.]+ import |import \w+\s*$|elif |print\()/m.test(code) || /:\s*$/m.test(code) && !/[{;]\s*$/m.test(code)) {
+        return 'python';
+    }
+    if (/\b(const|let|var|function)\b|=>|console\.log|[{};]\s*$/m.test(code)) {
+        return 'javascript';
+    }
+    return null;
+};
+
+const fencedBlocks = (text: string) =>
+    [...text.matchAll(/```([\w+-]*)[^\n]*\n([\s\S]*?)```/g)].map(([, tag, code]) => ({ tag: tag.toLowerCase(), code: code.replace(/\n$/, '') }));
+
+// The runnable code in a chat message: the first fenced block for the student's question and the
+// last for the model's reply, which is normally the corrected version. A student message without
+// fences counts only if the whole message reads as code. Unsupported languages give null.
+export const extractSnippet = (text: string, which: 'first' | 'last', fallbackLanguage?: RunLanguage): CodeSnippet | null => {
+    const blocks = fencedBlocks(text);
+    const block = which === 'first' ? blocks[0] : blocks[blocks.length - 1];
+    if (!block) {
+        const language = which === 'first' && text.trim().includes('\n') ? detectLanguage(text) : null;
+        return language ? { code: text.trim(), language } : null;
+    }
+    const language = block.tag ? LANGUAGE_TAGS[block.tag] : detectLanguage(block.code) ?? fallbackLanguage;
+    return language && block.code.trim() ? { code: block.code, language } : null;
+};
+
+const PYODIDE_PATH = '/pyodide/';
+
+// The Content-Security-Policy the worker runs under. Scripts may only come from the app's own
+// bundle and Pyodide's runtime files, and the only requests allowed are for those runtime files, so
+// neither `fetch` nor `import()` nor Pyodide's `pyfetch` can reach anything else. The dev server
+// serves modules from all over the origin, so there the script rule is the whole origin.
+const sandboxPolicy = () => {
+    const pyodideUrl = new URL(PYODIDE_PATH, location.origin).href;
+    const bundleUrl = new URL('.', new URL(workerUrl, location.href)).href;
+    const scriptSources = import.meta.env.DEV ? "'self'" : `${bundleUrl} ${pyodideUrl}`;
+    return [
+        "default-src 'none'",
+        `script-src ${scriptSources} 'unsafe-eval' 'wasm-unsafe-eval'`,
+        'worker-src blob:',
+        `connect-src ${pyodideUrl}`,
+    ].join('; ');
+};
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// A worker started from a blob URL inherits the Content-Security-Policy of the document that
+// creates it, so the worker is created through a hidden, empty frame that carries the policy in a
+// <meta> tag, and its blob script just imports the real worker module. The frame is removed with
+// the worker.
+const startSandboxedWorker = async (): Promise<{ worker: Worker; dispose: () => void }> => {
+    const frame = document.createElement('iframe');
+    frame.hidden = true;
+    frame.srcdoc = `<!DOCTYPE html><meta http-equiv="Content-Security-Policy" content="${escapeAttribute(sandboxPolicy())}">`;
+    const loaded = new Promise(resolve => frame.addEventListener('load', resolve, { once: true }));
+    document.body.appendChild(frame);
+    await loaded;
+
+    // Calling the frame's own Worker and URL makes the frame, not this page, the worker's creator.
+    const frameWindow = frame.contentWindow as Window & typeof globalThis;
+    const source = `import ${JSON.stringify(new URL(workerUrl, location.href).href)};`;
+    const scriptUrl = frameWindow.URL.createObjectURL(new frameWindow.Blob([source], { type: 'text/javascript' }));
+    const worker = new frameWindow.Worker(scriptUrl, { type: 'module' });
+    return {
+        worker,
+        dispose: () => {
+            worker.terminate();
+            frameWindow.URL.revokeObjectURL(scriptUrl);
+            frame.remove();
+        },
+    };
+};
+
+export const runCode = ({ code, language }: CodeSnippet, timeLimitMs = RUN_TIME_LIMIT_MS): Promise<RunResult> =>
+    startSandboxedWorker().then(({ worker, dispose }) => new Promise(resolve => {
+        let stdout = '';
+        let stderr = '';
+        let startedAt = 0;
+        let timer: ReturnType<typeof setTimeout>;
+
+        const finish = (status: RunResult['status'], message?: string) => {
+            clearTimeout(timer);
+            dispose();
+            if (message) stderr += `${stderr && !stderr.endsWith('\n') ? '\n' : ''}${message}\n`;
+            resolve({ status, stdout, stderr, durationMs: startedAt ? Math.round(performance.now() - startedAt) : 0 });
+        };
+
+        timer = setTimeout(() => finish('error', `The ${LANGUAGE_LABELS[language]} interpreter did not load in time.`), INTERPRETER_LOAD_LIMIT_MS);
+        worker.onmessage = ({ data }: MessageEvent<RunnerMessage>) => {
+            switch (data.type) {
+                case 'started':
+                    clearTimeout(timer);
+                    startedAt = performance.now();
+                    timer = setTimeout(() => finish('timeout', `Stopped after the ${timeLimitMs / 1000}s time limit.`), timeLimitMs);
+                    break;
+                case 'output':
+                    if (data.stream === 'stdout') stdout += data.text;
+                    else stderr += data.text;
+                    break;
+                case 'done':
+                    finish(data.ok ? 'ok' : 'error');
+                    break;
+            }
+        };
+        worker.onerror = (event) => {
+            event.preventDefault();
+            finish('error', event.message || 'The sandbox could not be started.');
+        };
+        worker.postMessage({ language, code } satisfies RunnerRequest);
+    }));
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Line-by-line diff from the longest common subsequence; snippets are small enough for O(n·m).
+export const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before.replace(/\n$/, '').split('\n');
+    const b = after.replace(/\n$/, '').split('\n');
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+    const diff: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            diff.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            diff.push({ type: 'removed', text: a[i++] });
+        } else {
+            diff.push({ type: 'added', text: b[j++] });
+        }
+    }
+    while (i < a.length) diff.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) diff.push({ type: 'added', text: b[j++] });
+    return diff;
+};
@@ -0,0 +1,84 @@
+import { loadPyodide } from 'pyodide';
+import type { RunnerMessage, RunnerRequest } from './codeRunner';
+
+// One worker runs one snippet and is then terminated by the page, so nothing leaks between runs.
+
+// Bundled with the app and served from its own origin (see vite.config.ts).
+const PYODIDE_URL = new URL('/pyodide/', self.location.origin).href;
+const MAX_OUTPUT_CHARS = 20000;
+// Removed from the worker's global scope once the interpreter is loaded and before any code runs.
+// The page's Content-Security-Policy is what keeps the code off the network (see codeRunner.ts);
+// this just makes the common APIs fail straight away instead of with a policy violation.
+const NETWORK_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'importScripts', 'Worker', 'SharedWorker', 'BroadcastChannel'];
+
+const post = (message: RunnerMessage) => self.postMessage(message);
+
+let written = 0;
+const write = (stream: 'stdout' | 'stderr', text: string) => {
+    if (written >= MAX_OUTPUT_CHARS) return;
+    const chunk = text.slice(0, MAX_OUTPUT_CHARS - written);
+    written += chunk.length;
+    post({ type: 'output', stream, text: written >= MAX_OUTPUT_CHARS ? `${chunk}\n[output truncated]\n` : chunk });
+};
+
+const cutOffNetwork = () => {
+    for (const name of NETWORK_GLOBALS) {
+        Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+    }
+};
+
+const formatValue = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return `${value.name}: ${value.message}`;
+    try {
+        return JSON.stringify(value) ?? String(value);
+    } catch {
+        return String(value);
+    }
+};
+
+const runJavaScript = async (code: string) => {
+    const line = (args: unknown[]) => `${args.map(formatValue).join(' ')}\n`;
+    const sandboxConsole = {
+        log: (...args: unknown[]) => write('stdout', line(args)),
+        info: (...args: unknown[]) => write('stdout', line(args)),
+        debug: (...args: unknown[]) => write('stdout', line(args)),
+        warn: (...args: unknown[]) => write('stderr', line(args)),
+        error: (...args: unknown[]) => write('stderr', line(args)),
+    };
+    const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (...args: string[]) => (...args: unknown[]) => Promise<unknown>;
+    cutOffNetwork();
+    post({ type: 'started' });
+    await new AsyncFunction('console', code)(sandboxConsole);
+};
+
+const runPython = async (code: string) => {
+    const pyodide = await loadPyodide({ indexURL: PYODIDE_URL });
+    pyodide.setStdout({ batched: (text: string) => write('stdout', `${text}\n`) });
+    pyodide.setStderr({ batched: (text: string) => write('stderr', `${text}\n`) });
+    pyodide.setStdin({ error: true });
+    cutOffNetwork();
+    post({ type: 'started' });
+    await pyodide.runPythonAsync(code, { globals: pyodide.toPy({}) });
+};
+
+// Errors thrown later from timers or promise callbacks still reach the student's stderr.
+self.addEventListener('error', (event) => {
+    event.preventDefault();
+    write('stderr', `${event.message}\n`);
+});
+self.addEventListener('unhandledrejection', (event) => {
+    event.preventDefault();
+    write('stderr', `Uncaught (in promise) ${formatValue(event.reason)}\n`);
+});
+
+self.onmessage = async ({ data }: MessageEvent<RunnerRequest>) => {
+    try {
+        await (data.language === 'python' ? runPython(data.code) : runJavaScript(data.code));
+        post({ type: 'done', ok: true });
+    } catch (error) {
+        // Pyodide's message already carries the Python traceback.
+        write('stderr', `${data.language === 'python' ? (error as Error).message : formatValue(error)}\n`);
+        post({ type: 'done', ok: false });
+    }
+};
@@ -0,0 +1,102 @@
+import type { Content, Part } from '@google/genai';
+import type { AttachmentPart, ChatMessage, Conversation, MessagePart } from '../types';
+import { GENERAL_SUBJECT, GENERAL_PROBLEM_TYPE } from './templateRegistry';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+const conversationsKey = (username: string) => `chatgps-conversations-${username}`;
+// Single-thread history written by earlier versions of the app.
+const legacyHistoryKey = (username: string) => `chatgps-chat-history-${username}`;
+
+export const createConversation = (messages: ChatMessage[] = [], title = DEFAULT_CONVERSATION_TITLE): Conversation => {
+    const now = Date.now();
+    return {
+        id: crypto.randomUUID(),
+        title,
+        subject: GENERAL_SUBJECT,
+        problemType: GENERAL_PROBLEM_TYPE,
+        messages,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+export const isAttachment = (part: MessagePart): part is AttachmentPart => 'inlineData' in part;
+
+export const messageText = (message: ChatMessage): string =>
+    message.parts.map(part => ('text' in part ? part.text : '')).join('');
+
+export const messageAttachments = (message: ChatMessage): AttachmentPart[] => message.parts.filter(isAttachment);
+
+// The Gemini form of a part. An attachment whose data was dropped from storage is described
+// instead, so the model knows something was there.
+export const toModelPart = (part: MessagePart): Part => {
+    if (!isAttachment(part)) return { text: part.text };
+    return part.inlineData.data
+        ? { inlineData: { mimeType: part.inlineData.mimeType, data: part.inlineData.data } }
+        : { text: `[Attachment "${part.fileName}" is no longer available]` };
+};
+
+export const toHistory = (messages: ChatMessage[]): Content[] =>
+    messages.map(message => ({ role: message.role, parts: message.parts.map(toModelPart) }));
+
+// Fallback title used when the model cannot summarise the first exchange.
+export const titleFromText = (text: string): string => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    if (!singleLine) return DEFAULT_CONVERSATION_TITLE;
+    return singleLine.length > 40 ? `${singleLine.slice(0, 40).trimEnd()}…` : singleLine;
+};
+
+export const loadConversations = (username: string): Conversation[] => {
+    try {
+        const saved = localStorage.getItem(conversationsKey(username));
+        if (saved) {
+            return JSON.parse(saved);
+        }
+        const legacy = localStorage.getItem(legacyHistoryKey(username));
+        if (legacy) {
+            const messages: ChatMessage[] = JSON.parse(legacy);
+            localStorage.removeItem(legacyHistoryKey(username));
+            if (messages.length > 0) {
+                return [createConversation(messages, titleFromText(messageText(messages[0])))];
+            }
+        }
+    } catch (error) {
+        console.error("Failed to load conversations from localStorage", error);
+    }
+    return [];
+};
+
+const withoutAttachmentData = (conversation: Conversation): Conversation => ({
+    ...conversation,
+    messages: conversation.messages.map(message => ({
+        ...message,
+        parts: message.parts.map(part => (isAttachment(part) ? { ...part, inlineData: { ...part.inlineData, data: '' } } : part)),
+    })),
+});
+
+// Attachments can fill the storage quota, so when a save does not fit, attachment data is dropped
+// from the least recently updated conversations until it does. Their names and text are kept.
+export const saveConversations = (username: string, conversations: Conversation[]) => {
+    const oldestFirst = [...conversations].sort((a, b) => a.updatedAt - b.updatedAt);
+    const stripped = new Set<string>();
+    for (;;) {
+        try {
+            const toSave = conversations.map(c => (stripped.has(c.id) ? withoutAttachmentData(c) : c));
+            localStorage.setItem(conversationsKey(username), JSON.stringify(toSave));
+            return;
+        } catch (error) {
+            const next = oldestFirst[stripped.size];
+            if (!(error instanceof DOMException && error.name === 'QuotaExceededError') || !next) {
+                console.error("Failed to save conversations to localStorage", error);
+                return;
+            }
+            stripped.add(next.id);
+        }
+    }
+};
+
+export const clearConversations = (username: string) => {
+    localStorage.removeItem(conversationsKey(username));
+    localStorage.removeItem(legacyHistoryKey(username));
+};
@@ -0,0 +1,81 @@
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { InlineMedia } from './aiProvider';
+
+// Reads PDFs and plain-text files in the browser for the Media Analyzer. PDF pages are rendered
+// to images with pdf.js, which is bundled with the app, and their text layer is extracted
+// alongside so the model gets both the layout and the exact wording.
+
+export const MAX_PDF_PAGES = 20;
+const PAGE_MAX_DIMENSION = 1024;
+const MAX_TEXT_CHARS = 50000;
+const JPEG_QUALITY = 0.8;
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'csv'];
+
+export interface DocumentContent {
+    // Rendered pages; empty for plain-text files.
+    pages: InlineMedia[];
+    text: string;
+    pageCount: number;
+}
+
+type PdfJs = typeof import('pdfjs-dist');
+
+let pdfJs: Promise<PdfJs> | null = null;
+
+// pdf.js is large, so it is split into its own chunk and only fetched when a PDF is first read.
+const loadPdfJs = (): Promise<PdfJs> => {
+    pdfJs ??= import('pdfjs-dist').then(module => {
+        module.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+        return module;
+    });
+    // Let a later attempt retry after a failed chunk download.
+    pdfJs.catch(() => {
+        pdfJs = null;
+    });
+    return pdfJs;
+};
+
+const truncate = (text: string) =>
+    text.length > MAX_TEXT_CHARS ? `${text.slice(0, MAX_TEXT_CHARS)}\n[... text truncated]` : text;
+
+export const isPdfFile = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+export const isTextFile = (file: File) =>
+    file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(file.name.split('.').pop()?.toLowerCase() ?? '');
+
+export const readTextDocument = async (file: File): Promise<DocumentContent> =>
+    ({ pages: [], text: truncate(await file.text()), pageCount: 0 });
+
+// Renders up to MAX_PDF_PAGES pages; the text covers the same pages.
+export const readPdfDocument = async (file: File, onProgress?: (fraction: number) => void): Promise<DocumentContent> => {
+    const { getDocument } = await loadPdfJs();
+    const pdf = await getDocument({ data: await file.arrayBuffer() }).promise;
+    try {
+        const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES);
+        const canvas = document.createElement('canvas');
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Could not get canvas context.');
+        }
+        const pages: InlineMedia[] = [];
+        const texts: string[] = [];
+        for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const natural = page.getViewport({ scale: 1 });
+            const viewport = page.getViewport({ scale: PAGE_MAX_DIMENSION / Math.max(natural.width, natural.height) });
+            canvas.width = Math.round(viewport.width);
+            canvas.height = Math.round(viewport.height);
+            await page.render({ canvasContext: context, viewport }).promise;
+            pages.push({ mimeType: 'image/jpeg', data: canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1] });
+
+            const { items } = await page.getTextContent();
+            const pageText = items.map(item => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : '')).join('').trim();
+            if (pageText) texts.push(`--- Page ${pageNumber} ---\n${pageText}`);
+            onProgress?.(pageNumber / pageCount);
+        }
+        return { pages, text: truncate(texts.join('\n\n')), pageCount: pdf.numPages };
+    } finally {
+        await pdf.destroy();
+    }
+};
@@ -1,65 +1,204 @@
+import { GoogleGenAI, Content, Part, Type, Schema } from "@google/genai";
+import type { StepSolution } from '../types';
+import type { AIProvider, AnalysisFile, ChatPrompt, LiveConnectOptions, LiveSessionHandle } from './aiProvider';
+import { STEP_SOLUTION_INSTRUCTION, parseStepSolution } from './stepSolution';
+import { formatTimestamp } from './videoFrames';
 
-import { GoogleGenAI, GenerateContentResponse, Content, Part } from "@google/genai";
+let client: GoogleGenAI | null = null;
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The client is created on first use so the app can load without a key when another provider is selected.
+const getClient = (): GoogleGenAI => {
+    if (!process.env.API_KEY) {
+        throw new Error("API_KEY environment variable not set");
+    }
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return client;
+};
 
 // fix: Use the 'latest' tag for gemini-flash-lite model as per guidelines.
 const flashLiteModel = 'gemini-flash-lite-latest';
 const flashModel = 'gemini-2.5-flash';
 const proModel = 'gemini-2.5-pro';
+const liveModel = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+const chatSystemInstruction = "You are ChatGPS, an AI assistant for students. Help with school service questions, homework like solving equations, and other academic inquiries. Be friendly, helpful, and accurate.";
+
+const withChatInstruction = (systemInstruction?: string) =>
+    systemInstruction ? `${chatSystemInstruction}\n\n${systemInstruction}` : chatSystemInstruction;
+
+const stepSolutionSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        problem: { type: Type.STRING, description: 'The problem being solved, restated.' },
+        steps: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    expression: { type: Type.STRING, description: 'The expression or equation after this step.' },
+                    justification: { type: Type.STRING, description: 'Why this step is valid.' },
+                },
+                required: ['expression', 'justification'],
+                propertyOrdering: ['expression', 'justification'],
+            },
+        },
+        finalAnswer: { type: Type.STRING },
+    },
+    required: ['problem', 'steps', 'finalAnswer'],
+    propertyOrdering: ['problem', 'steps', 'finalAnswer'],
+};
 
 export const generateText = async (
-    prompt: string, 
+    prompt: ChatPrompt,
     history: Content[],
     useLiteModel: boolean
-): Promise<GenerateContentResponse> => {
+): Promise<string> => {
     const model = useLiteModel ? flashLiteModel : flashModel;
-    const chat = ai.chats.create({
+    const chat = getClient().chats.create({
         model,
         history,
         config: {
-            systemInstruction: "You are ChatGPS, an AI assistant for students. Help with school service questions, homework like solving equations, and other academic inquiries. Be friendly, helpful, and accurate.",
+            systemInstruction: chatSystemInstruction,
         }
     });
     const response = await chat.sendMessage({ message: prompt });
-    return response;
+    return response.text ?? '';
 };
 
-export const generateTextAndImage = async (
-    prompt: string,
-    image: { mimeType: string; data: string }
-): Promise<GenerateContentResponse> => {
-    const imagePart = {
-        inlineData: image
-    };
-    const textPart = { text: prompt };
+// Streams the reply as it is generated, yielding the accumulated text after each chunk.
+// Aborting the signal stops generation; the generator then returns without throwing.
+export async function* generateTextStream(
+    prompt: ChatPrompt,
+    history: Content[],
+    useLiteModel: boolean,
+    signal?: AbortSignal,
+    systemInstruction?: string
+): AsyncGenerator<string> {
+    const model = useLiteModel ? flashLiteModel : flashModel;
+    const chat = getClient().chats.create({
+        model,
+        history,
+        config: {
+            systemInstruction: withChatInstruction(systemInstruction),
+        }
+    });
+    let text = '';
+    try {
+        const stream = await chat.sendMessageStream({ message: prompt, config: { abortSignal: signal } });
+        for await (const chunk of stream) {
+            if (signal?.aborted) return;
+            text += chunk.text ?? '';
+            yield text;
+        }
+    } catch (error) {
+        if (signal?.aborted) return;
+        throw error;
+    }
+}
 
-    const response = await ai.models.generateContent({
-        model: flashModel,
-        contents: { parts: [imagePart, textPart] }
+export const generateStepSolution = async (
+    prompt: ChatPrompt,
+    history: Content[],
+    useLiteModel: boolean,
+    signal?: AbortSignal,
+    systemInstruction?: string
+): Promise<StepSolution | null> => {
+    const chat = getClient().chats.create({
+        model: useLiteModel ? flashLiteModel : flashModel,
+        history,
+        config: {
+            systemInstruction: withChatInstruction([systemInstruction, STEP_SOLUTION_INSTRUCTION].filter(Boolean).join('\n\n')),
+            responseMimeType: 'application/json',
+            responseSchema: stepSolutionSchema,
+        }
     });
-    return response;
+    try {
+        const response = await chat.sendMessage({ message: prompt, config: { abortSignal: signal } });
+        return signal?.aborted ? null : parseStepSolution(response.text ?? '');
+    } catch (error) {
+        if (signal?.aborted) return null;
+        throw error;
+    }
 };
 
-export const generateTextAndVideo = async (
+export const generateConversationTitle = async (
+    userText: string,
+    modelText: string
+): Promise<string> => {
+    const response = await getClient().models.generateContent({
+        model: flashLiteModel,
+        contents: `Write a short title of at most six words for a conversation that begins with the exchange below. Reply with the title only, without quotes.\n\nStudent: ${userText}\n\nAssistant: ${modelText.slice(0, 1000)}`,
+    });
+    return (response.text ?? '').trim().replace(/^["']+|["']+$/g, '');
+};
+
+// Puts the media in front of the first question so that follow-ups can refer back to it.
+const anchorToMedia = (mediaParts: Part[], prompt: string, history: Content[]): Content[] => {
+    const [first, ...rest]: Content[] = [...history, { role: 'user', parts: [{ text: prompt }] }];
+    return [{ role: 'user', parts: [...mediaParts, ...(first.parts ?? [])] }, ...rest];
+};
+
+// Every file is introduced by its name so that questions can refer to it; video frames and PDF
+// pages are labelled too, so answers can point to a moment or a page.
+const filesToParts = (files: AnalysisFile[]): Part[] =>
+    files.flatMap((file, index): Part[] => {
+        const label = `File ${index + 1}: "${file.name}"`;
+        switch (file.kind) {
+            case 'image':
+                return [{ text: `${label} (image):` }, { inlineData: file.image }];
+            case 'video':
+                return [
+                    { text: `${label} (video, ${file.frames.length} frames):` },
+                    ...file.frames.flatMap(frame => [
+                        { text: `"${file.name}" at ${formatTimestamp(frame.time)}:` },
+                        { inlineData: frame.image },
+                    ]),
+                ];
+            case 'document': {
+                const shown = file.pages.length < file.pageCount ? `, first ${file.pages.length} shown` : '';
+                return [
+                    { text: `${label} (document${file.pageCount ? `, ${file.pageCount} pages${shown}` : ''}):` },
+                    ...file.pages.flatMap((page, pageIndex) => [
+                        { text: `"${file.name}" page ${pageIndex + 1}:` },
+                        { inlineData: page },
+                    ]),
+                    ...(file.text ? [{ text: `Text of "${file.name}":\n${file.text}` }] : []),
+                ];
+            }
+        }
+    });
+
+export const generateTextAndFiles = async (
     prompt: string,
-    frames: { mimeType: string; data: string }[]
-): Promise<GenerateContentResponse> => {
-    const textPart = { text: prompt };
-    const imageParts: Part[] = frames.map(frame => ({
-        inlineData: frame
-    }));
-    
-    // Add a preamble to guide the model
-    const preamble: Part = { text: "Analyze the following sequence of video frames to answer the user's question." };
-
-    const response = await ai.models.generateContent({
-        model: proModel,
-        contents: { parts: [preamble, textPart, ...imageParts] }
+    files: AnalysisFile[],
+    history: Content[] = []
+): Promise<string> => {
+    const hasVideo = files.some(file => file.kind === 'video');
+    const preamble: Part = {
+        text: "Analyze the following files to answer the user's question. Each file is labelled with its name; when the question mentions a file, use that one." +
+            (hasVideo ? ' Video frames are labelled with their time in the video. When you refer to a moment, cite its timestamp as [mm:ss], or [h:mm:ss] for long videos.' : ''),
+    };
+
+    const response = await getClient().models.generateContent({
+        // Video needs the stronger model to follow events across many frames.
+        model: hasVideo ? proModel : flashModel,
+        contents: anchorToMedia([preamble, ...filesToParts(files)], prompt, history)
     });
-    return response;
-};
\ No newline at end of file
+    return response.text ?? '';
+};
+
+export const connectLive = ({ config, callbacks }: LiveConnectOptions): Promise<LiveSessionHandle> => {
+    return getClient().live.connect({ model: liveModel, config, callbacks });
+};
+
+export const geminiProvider: AIProvider = {
+    label: 'Gemini',
+    generateText,
+    generateTextStream,
+    generateStepSolution,
+    generateConversationTitle,
+    generateTextAndFiles,
+    connectLive,
+};
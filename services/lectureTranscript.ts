@@ -0,0 +1,180 @@
+// The Audio Transcriber's transcript as timed segments, so it can be exported as subtitles and
+// lined up with the student's own recording of a lecture. Times are milliseconds since the
+// transcript's first recording started, by the wall clock, so pauses and reconnections keep the
+// later segments in step with a recording that kept running. A segment's times are when its
+// transcription arrived, which trails the speech by a moment.
+
+export interface TranscriptSegment {
+    text: string;
+    start: number;
+    end: number;
+}
+
+export interface LectureTranscript {
+    // Epoch milliseconds when the first recording of this transcript started.
+    startedAt: number | null;
+    segments: TranscriptSegment[];
+    // The segment still being transcribed.
+    current: TranscriptSegment | null;
+}
+
+export type LectureTranscriptEvent =
+    | { type: 'start'; at: number }
+    | { type: 'text'; text: string; at: number }
+    // The speaker finished, or the connection dropped: the current segment is complete.
+    | { type: 'finalize' }
+    | { type: 'clear' };
+
+export const EMPTY_LECTURE_TRANSCRIPT: LectureTranscript = { startedAt: null, segments: [], current: null };
+
+const finalize = (state: LectureTranscript): LectureTranscript =>
+    state.current?.text.trim()
+        ? { ...state, segments: [...state.segments, state.current], current: null }
+        : { ...state, current: null };
+
+export const applyLectureTranscriptEvent = (state: LectureTranscript, event: LectureTranscriptEvent): LectureTranscript => {
+    switch (event.type) {
+        case 'start':
+            // Recording again continues the same transcript and timeline.
+            return state.startedAt === null ? { ...state, startedAt: event.at } : state;
+        case 'text': {
+            const startedAt = state.startedAt ?? event.at;
+            const offset = event.at - startedAt;
+            const current = state.current
+                ? { ...state.current, text: state.current.text + event.text, end: offset }
+                : { text: event.text, start: offset, end: offset };
+            return { ...state, startedAt, current };
+        }
+        case 'finalize':
+            return finalize(state);
+        case 'clear':
+            return EMPTY_LECTURE_TRANSCRIPT;
+    }
+};
+
+const transcriptKey = (username: string) => `chatgps-transcript-${username}`;
+
+// A segment that was still being transcribed when the page was left is kept as a finished one.
+export const loadLectureTranscript = (username: string): LectureTranscript => {
+    try {
+        const saved = localStorage.getItem(transcriptKey(username));
+        if (saved) {
+            return finalize(JSON.parse(saved));
+        }
+    } catch (error) {
+        console.error("Failed to load transcript from localStorage", error);
+    }
+    return EMPTY_LECTURE_TRANSCRIPT;
+};
+
+export const saveLectureTranscript = (username: string, transcript: LectureTranscript) => {
+    try {
+        if (transcript.segments.length === 0 && !transcript.current) {
+            localStorage.removeItem(transcriptKey(username));
+        } else {
+            localStorage.setItem(transcriptKey(username), JSON.stringify(transcript));
+        }
+    } catch (error) {
+        console.error("Failed to save transcript to localStorage", error);
+    }
+};
+
+export const clearLectureTranscript = (username: string) => {
+    localStorage.removeItem(transcriptKey(username));
+};
+
+export type TranscriptFormat = 'txt' | 'md' | 'srt' | 'vtt';
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, { label: string; mimeType: string }> = {
+    txt: { label: 'Plain text', mimeType: 'text/plain' },
+    md: { label: 'Markdown', mimeType: 'text/markdown' },
+    srt: { label: 'SRT subtitles', mimeType: 'application/x-subrip' },
+    vtt: { label: 'WebVTT subtitles', mimeType: 'text/vtt' },
+};
+
+// Subtitle cues of at most two 42-character lines, shown for at least a second and a half.
+const MAX_CUE_CHARACTERS = 84;
+const MIN_CUE_DURATION_MS = 1500;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 01:02:03.456, with the separator before the milliseconds SRT (',') or WebVTT ('.') expects.
+const formatCueTime = (ms: number, separator: ',' | '.') => {
+    const total = Math.max(0, Math.round(ms));
+    const hours = Math.floor(total / 3600000);
+    const minutes = Math.floor(total / 60000) % 60;
+    const seconds = Math.floor(total / 1000) % 60;
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+// 1:02:03, or 2:03 under an hour.
+const formatOffset = (ms: number) => {
+    const total = Math.max(0, Math.floor(ms / 1000));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor(total / 60) % 60;
+    const seconds = total % 60;
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Splits a segment into cues at word boundaries, sharing its time out by length.
+const segmentCues = (segment: TranscriptSegment): TranscriptSegment[] => {
+    const text = normalizeText(segment.text);
+    const pieces: string[] = [];
+    let piece = '';
+    for (const word of text.split(' ')) {
+        if (piece && piece.length + 1 + word.length > MAX_CUE_CHARACTERS) {
+            pieces.push(piece);
+            piece = word;
+        } else {
+            piece = piece ? `${piece} ${word}` : word;
+        }
+    }
+    if (piece) pieces.push(piece);
+
+    const duration = Math.max(segment.end - segment.start, MIN_CUE_DURATION_MS * pieces.length);
+    let start = segment.start;
+    return pieces.map(cueText => {
+        const cue = { text: cueText, start, end: start + duration * (cueText.length / text.length) };
+        start = cue.end;
+        return cue;
+    });
+};
+
+// Cues never overlap: one that would run into the next is cut short where the next begins.
+const toCues = (segments: TranscriptSegment[]): TranscriptSegment[] => {
+    const cues = segments.filter(segment => normalizeText(segment.text)).flatMap(segmentCues);
+    return cues.map((cue, index) => {
+        const next = cues[index + 1];
+        return next && cue.end > next.start ? { ...cue, end: Math.max(cue.start, next.start) } : cue;
+    });
+};
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const formatTranscript = (segments: TranscriptSegment[], format: TranscriptFormat, recordedAt?: number): string => {
+    const spoken = segments.filter(segment => normalizeText(segment.text));
+    switch (format) {
+        case 'txt':
+            return spoken.map(segment => `[${formatOffset(segment.start)}] ${normalizeText(segment.text)}`).join('\n') + '\n';
+        case 'md': {
+            const heading = recordedAt ? `# Transcript, ${new Date(recordedAt).toLocaleString()}` : '# Transcript';
+            const body = spoken.map(segment => `**[${formatOffset(segment.start)}]** ${normalizeText(segment.text)}`);
+            return [heading, ...body].join('\n\n') + '\n';
+        }
+        case 'srt':
+            return toCues(spoken)
+                .map((cue, index) => `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`)
+                .join('\n');
+        case 'vtt':
+            return ['WEBVTT\n', ...toCues(spoken).map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${escapeVtt(cue.text)}\n`)]
+                .join('\n');
+    }
+};
+
+// Named after when the recording started, e.g. transcript-20250314-093005.srt.
+export const transcriptFileName = (format: TranscriptFormat, recordedAt: number | null) => {
+    const date = new Date(recordedAt ?? Date.now());
+    return `transcript-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}.${format}`;
+};
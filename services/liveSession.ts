@@ -0,0 +1,206 @@
+import type { LiveConnectConfig, LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+import { aiProvider, LiveSessionHandle } from './aiProvider';
+
+// A Live API session that survives network blips. Every feature that streams to the Live API
+// goes through it: when the connection drops, or the server announces with `goAway` that it is
+// about to close it, a new connection is opened with the latest session-resumption handle so the
+// model keeps its context. Audio sent while reconnecting is buffered and delivered afterwards.
+
+export type LiveConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface LiveSessionOptions {
+    config: LiveConnectConfig;
+    onMessage: (message: LiveServerMessage) => void;
+    // Called once, when the first connection opens; later reconnections are silent.
+    onOpen?: () => void | Promise<void>;
+    // `attempt` counts reconnection attempts since the connection was last open.
+    onStateChange?: (state: LiveConnectionState, attempt: number) => void;
+    // Called once when the session ends for good: with no error when `close` was called, or
+    // with the reason when it could not be opened or reconnecting failed.
+    onClose?: (error?: Error) => void;
+    maxReconnectAttempts?: number;
+}
+
+export interface LiveSession {
+    readonly state: LiveConnectionState;
+    // Sends now, or buffers the input until the connection is back.
+    send: (params: LiveSendRealtimeInputParameters) => void;
+    close: () => void;
+}
+
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+// A connection counts as healthy, and the retry count starts over, only once it has stayed open
+// this long. One that the server accepts and then drops straight away keeps backing off.
+const HEALTHY_CONNECTION_MS = 5000;
+// About a minute of 100 ms microphone chunks; older input is dropped first.
+const MAX_BUFFERED_INPUTS = 600;
+
+// Exponential backoff with jitter, so many clients dropped together do not retry in step.
+export const retryDelay = (attempt: number): number => {
+    const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(delay * (0.75 + Math.random() * 0.5));
+};
+
+// Camera and screen frames are only worth sending while current, so they are not buffered.
+const isStillFrame = (params: LiveSendRealtimeInputParameters) => {
+    const media = params.media;
+    return !!media && 'mimeType' in media && !!media.mimeType?.startsWith('image/');
+};
+
+export const startLiveSession = ({
+    config,
+    onMessage,
+    onOpen,
+    onStateChange,
+    onClose,
+    maxReconnectAttempts = DEFAULT_MAX_RECONNECT_ATTEMPTS,
+}: LiveSessionOptions): LiveSession => {
+    let state: LiveConnectionState = 'connecting';
+    let handle: LiveSessionHandle | null = null;
+    // Identifies the current connection, so callbacks from a replaced one are ignored.
+    let generation = 0;
+    let resumptionHandle: string | undefined;
+    let hasOpened = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let healthyTimer: ReturnType<typeof setTimeout> | null = null;
+    // Whether the current connection was opened with `resumptionHandle`.
+    let resuming = false;
+    const buffered: LiveSendRealtimeInputParameters[] = [];
+
+    const setState = (next: LiveConnectionState) => {
+        state = next;
+        onStateChange?.(next, attempt);
+    };
+
+    const finish = (error?: Error) => {
+        if (state === 'closed') return;
+        if (retryTimer) clearTimeout(retryTimer);
+        if (healthyTimer) clearTimeout(healthyTimer);
+        generation += 1;
+        handle?.close();
+        handle = null;
+        buffered.length = 0;
+        setState('closed');
+        onClose?.(error);
+    };
+
+    const flush = () => {
+        while (handle && buffered.length > 0) {
+            handle.sendRealtimeInput(buffered.shift()!);
+        }
+    };
+
+    // The current connection is gone: try again unless the session never opened, in which case
+    // the problem is more likely the configuration or permissions than the network.
+    const connectionLost = (reason: string) => {
+        if (state === 'closed') return;
+        generation += 1;
+        handle?.close();
+        handle = null;
+        // The server accepted the connection but dropped it before it proved healthy.
+        const droppedSoonAfterOpening = state === 'open' && healthyTimer !== null;
+        if (healthyTimer) {
+            clearTimeout(healthyTimer);
+            healthyTimer = null;
+        }
+        // A resumed connection dropped like that most likely had its handle rejected (it may have
+        // expired), so the next attempt starts a fresh session instead of repeating it. A
+        // connection that never opened keeps the handle: that looks like the network instead.
+        if (resuming && droppedSoonAfterOpening) {
+            resumptionHandle = undefined;
+        }
+        if (!hasOpened) {
+            finish(new Error(reason));
+            return;
+        }
+        if (attempt >= maxReconnectAttempts) {
+            finish(new Error(`The connection was lost and could not be restored (${reason}).`));
+            return;
+        }
+        attempt += 1;
+        setState('reconnecting');
+        retryTimer = setTimeout(connect, retryDelay(attempt));
+    };
+
+    const connect = () => {
+        retryTimer = null;
+        const current = ++generation;
+        resuming = resumptionHandle !== undefined;
+        aiProvider.connectLive({
+            config: { ...config, sessionResumption: { handle: resumptionHandle } },
+            callbacks: {
+                onopen: () => {
+                    if (current !== generation) return;
+                    setState('open');
+                    healthyTimer = setTimeout(() => {
+                        healthyTimer = null;
+                        attempt = 0;
+                    }, HEALTHY_CONNECTION_MS);
+                    if (!hasOpened) {
+                        hasOpened = true;
+                        onOpen?.();
+                    }
+                },
+                onmessage: (message: LiveServerMessage) => {
+                    if (current !== generation) return;
+                    const update = message.sessionResumptionUpdate;
+                    if (update?.resumable && update.newHandle) {
+                        resumptionHandle = update.newHandle;
+                    }
+                    if (message.goAway) {
+                        // Reconnect now rather than lose whatever is said before the server cuts us off.
+                        connectionLost('the server is closing the connection');
+                        return;
+                    }
+                    onMessage(message);
+                },
+                onerror: (e: ErrorEvent) => {
+                    if (current !== generation) return;
+                    console.error('Live session error:', e);
+                    connectionLost(e.message || 'connection error');
+                },
+                onclose: (e: CloseEvent) => {
+                    if (current !== generation) return;
+                    connectionLost(e?.reason || 'connection closed');
+                },
+            },
+        }).then(
+            (opened) => {
+                if (current !== generation) {
+                    opened.close();
+                    return;
+                }
+                handle = opened;
+                flush();
+            },
+            (error: Error) => {
+                if (current !== generation) return;
+                console.error('Failed to connect live session:', error);
+                connectionLost(error.message);
+            },
+        );
+    };
+
+    setState('connecting');
+    connect();
+
+    return {
+        get state() {
+            return state;
+        },
+        send: (params) => {
+            if (state === 'closed') return;
+            if (handle && state === 'open') {
+                handle.sendRealtimeInput(params);
+                return;
+            }
+            if (isStillFrame(params)) return;
+            buffered.push(params);
+            if (buffered.length > MAX_BUFFERED_INPUTS) buffered.shift();
+        },
+        close: () => finish(),
+    };
+};
@@ -0,0 +1,377 @@
+import type { AnswerVerification } from '../types';
+
+// Checks a model's final answer to a math problem on the client: solutions of equations are
+// substituted back in, and answers to "simplify"/"evaluate" style problems are compared with
+// the original expression at sample points. Anything this small parser cannot read is reported
+// as unverified rather than guessed at.
+
+type Node =
+    | { kind: 'num'; value: number }
+    | { kind: 'var'; name: string }
+    | { kind: 'neg'; arg: Node }
+    | { kind: 'bin'; op: '+' | '-' | '*' | '/' | '^'; left: Node; right: Node }
+    | { kind: 'call'; fn: string; arg: Node };
+
+type Scope = Record<string, number>;
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+    sqrt: Math.sqrt, abs: Math.abs, exp: Math.exp, ln: Math.log, log: Math.log10,
+    sin: Math.sin, cos: Math.cos, tan: Math.tan, arcsin: Math.asin, arccos: Math.acos, arctan: Math.atan,
+};
+const CONSTANTS: Scope = { pi: Math.PI, e: Math.E };
+
+// Problems that ask for an equivalent form or a value, so the answer can be compared directly.
+const EQUIVALENCE_VERBS = /^(simplify|expand|factor|factorise|factorize|rewrite|combine|evaluate|compute|calculate|what is)\b[\s:]*/i;
+
+const TOLERANCE = 1e-6;
+const SAMPLE_POINTS = [0.37, 1.81, -2.23, 3.14, -0.59];
+
+class ParseError extends Error {}
+
+// Turns the LaTeX and Unicode math models like to write into plain infix notation.
+const normalizeMath = (text: string): string => {
+    let s = text
+        .replace(/\$+/g, ' ')
+        .replace(/\\left|\\right|\\displaystyle|\\[,;!]/g, '')
+        .replace(/\\(?:cdot|times)|×|·/g, '*')
+        .replace(/\\div|÷/g, '/')
+        .replace(/\\pi|π/g, 'pi')
+        .replace(/−|–/g, '-')
+        .replace(/²/g, '^2')
+        .replace(/³/g, '^3')
+        .replace(/√/g, 'sqrt')
+        .replace(/\\(sqrt|sin|cos|tan|ln|log|exp|arcsin|arccos|arctan)\b/g, '$1');
+    // Resolve innermost braces first so nested fractions and roots come out right.
+    for (let guard = 0; guard < 50 && /[{}]/.test(s); guard++) {
+        const before = s;
+        s = s
+            .replace(/\\[dt]?frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, '(($1)/($2))')
+            .replace(/sqrt\s*\[([^\]]*)\]\s*\{([^{}]*)\}/g, '(($2)^(1/($1)))')
+            .replace(/\{([^{}]*)\}/g, '($1)');
+        if (s === before) break;
+    }
+    return s.replace(/\*\*/g, '').replace(/\\/g, '').trim();
+};
+
+const tokenize = (source: string): string[] => {
+    const tokens: string[] = [];
+    const pattern = /\s*(\d+(?:\.\d+)?|\.\d+|[a-zA-Z]+|[+\-*/^()|])/y;
+    let index = 0;
+    while (index < source.length) {
+        pattern.lastIndex = index;
+        const match = pattern.exec(source);
+        if (!match) {
+            if (/^\s*$/.test(source.slice(index))) break;
+            throw new ParseError(`Unexpected "${source[index]}"`);
+        }
+        const token = match[1];
+        if (/^[a-zA-Z]+$/.test(token) && !(token in FUNCTIONS) && !(token in CONSTANTS)) {
+            // "xy" is x times y; single letters are variables.
+            tokens.push(...token.split(''));
+        } else {
+            tokens.push(token);
+        }
+        index = pattern.lastIndex;
+    }
+    return tokens;
+};
+
+const parseExpression = (source: string): Node => {
+    const tokens = tokenize(source);
+    let position = 0;
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+    const expect = (token: string) => {
+        if (next() !== token) throw new ParseError(`Expected "${token}"`);
+    };
+    const startsPrimary = (token: string | undefined) => token !== undefined && /^(\d|\.|[a-zA-Z(])/.test(token);
+
+    const primary = (): Node => {
+        const token = next();
+        if (token === undefined) throw new ParseError('Unexpected end of expression');
+        if (/^(\d|\.)/.test(token)) return { kind: 'num', value: Number(token) };
+        if (token === '(') {
+            const inner = expression();
+            expect(')');
+            return inner;
+        }
+        if (token === '|') {
+            const inner = expression();
+            expect('|');
+            return { kind: 'call', fn: 'abs', arg: inner };
+        }
+        if (token in FUNCTIONS) {
+            // Allow both sqrt(x) and the sloppier "sqrt x".
+            return { kind: 'call', fn: token, arg: peek() === '(' ? primary() : power() };
+        }
+        if (token in CONSTANTS) return { kind: 'num', value: CONSTANTS[token] };
+        if (/^[a-zA-Z]$/.test(token)) return { kind: 'var', name: token };
+        throw new ParseError(`Unexpected "${token}"`);
+    };
+
+    const power = (): Node => {
+        const base = primary();
+        if (peek() === '^') {
+            next();
+            return { kind: 'bin', op: '^', left: base, right: unary() };
+        }
+        return base;
+    };
+
+    const unary = (): Node => {
+        if (peek() === '-') {
+            next();
+            return { kind: 'neg', arg: unary() };
+        }
+        if (peek() === '+') {
+            next();
+            return unary();
+        }
+        return power();
+    };
+
+    const term = (): Node => {
+        let node = unary();
+        for (;;) {
+            const token = peek();
+            if (token === '*' || token === '/') {
+                next();
+                node = { kind: 'bin', op: token, left: node, right: unary() };
+            } else if (startsPrimary(token)) {
+                node = { kind: 'bin', op: '*', left: node, right: power() };
+            } else {
+                return node;
+            }
+        }
+    };
+
+    const expression = (): Node => {
+        let node = term();
+        while (peek() === '+' || peek() === '-') {
+            const op = next() as '+' | '-';
+            node = { kind: 'bin', op, left: node, right: term() };
+        }
+        return node;
+    };
+
+    const tree = expression();
+    if (position !== tokens.length) throw new ParseError(`Unexpected "${tokens[position]}"`);
+    return tree;
+};
+
+const evaluate = (node: Node, scope: Scope): number => {
+    switch (node.kind) {
+        case 'num': return node.value;
+        case 'var':
+            if (!(node.name in scope)) throw new ParseError(`No value for ${node.name}`);
+            return scope[node.name];
+        case 'neg': return -evaluate(node.arg, scope);
+        case 'call': return FUNCTIONS[node.fn](evaluate(node.arg, scope));
+        case 'bin': {
+            const left = evaluate(node.left, scope);
+            const right = evaluate(node.right, scope);
+            switch (node.op) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return left / right;
+                case '^': return left ** right;
+            }
+        }
+    }
+};
+
+const variablesOf = (node: Node, into = new Set<string>()): Set<string> => {
+    if (node.kind === 'var') into.add(node.name);
+    if (node.kind === 'neg' || node.kind === 'call') variablesOf(node.arg, into);
+    if (node.kind === 'bin') {
+        variablesOf(node.left, into);
+        variablesOf(node.right, into);
+    }
+    return into;
+};
+
+const close = (a: number, b: number) => Math.abs(a - b) <= TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+
+const format = (n: number) => (Number.isInteger(n) ? String(n) : String(Number(n.toPrecision(6))));
+
+// Letters are read as single-letter variables, so words such as "the derivative of" would
+// silently become a product of variables. Text with any word that is not a known function or
+// constant is not compared at all.
+const containsWords = (source: string): boolean =>
+    (source.match(/[a-zA-Z]{2,}/g) ?? []).some(word => !(word in FUNCTIONS) && !(word in CONSTANTS));
+
+const tryParse = (source: string): Node | null => {
+    try {
+        return parseExpression(source);
+    } catch {
+        return null;
+    }
+};
+
+interface Equation {
+    source: string;
+    left: Node;
+    right: Node;
+}
+
+// Words end a formula; "2x", "sqrt" and "pi" do not.
+const isMathToken = (token: string) =>
+    /^[\d\w+\-*/^().|]+$/.test(token) && !(/^[a-zA-Z]{2,}[.,:;?!]*$/.test(token) && !(token.replace(/[^a-zA-Z]/g, '') in FUNCTIONS) && !(token.replace(/[^a-zA-Z]/g, '') in CONSTANTS));
+
+// Equations written in the problem, e.g. "Solve 2x + 3 = 11 for x" gives "2x + 3 = 11".
+const extractEquations = (problem: string): Equation[] => {
+    const equations: Equation[] = [];
+    for (const segment of normalizeMath(problem).split(/\n|;|,(?!\d{3})|\band\b/)) {
+        if ((segment.match(/=/g) ?? []).length !== 1 || /[<>!]=/.test(segment)) continue;
+        const [rawLeft, rawRight] = segment.split('=');
+        const leftTokens = rawLeft.trim().split(/\s+/);
+        const rightTokens = rawRight.trim().split(/\s+/);
+        let start = leftTokens.length;
+        while (start > 0 && isMathToken(leftTokens[start - 1])) start--;
+        let end = 0;
+        while (end < rightTokens.length && isMathToken(rightTokens[end])) end++;
+        const leftSource = leftTokens.slice(start).join(' ');
+        const rightSource = rightTokens.slice(0, end).join(' ').replace(/[.,:;?!]+$/, '');
+        const left = tryParse(leftSource);
+        const right = tryParse(rightSource);
+        if (left && right && leftSource && rightSource) {
+            equations.push({ source: `${leftSource} = ${rightSource}`, left, right });
+        }
+    }
+    return equations;
+};
+
+// "x = 2 or x = -2", "x = ±3", "x = 1, y = 2" and "x = 2, -2" become lists of assignments.
+const parseSolutions = (answer: string): Scope[] | null => {
+    const normalized = normalizeMath(answer.replace(/\\pm/g, '±')).replace(/[.;]+$/, '');
+    const pieces = normalized.split(/,|;|\bor\b|\band\b/).map(piece => piece.trim()).filter(Boolean);
+    const assignments: [string, number][] = [];
+    let lastVariable: string | null = null;
+    for (const piece of pieces) {
+        const match = piece.match(/^([a-zA-Z])\s*=\s*(.+)$/);
+        const variable = match ? match[1] : lastVariable;
+        const valueSource = match ? match[2] : piece;
+        if (!variable) return null;
+        lastVariable = variable;
+        const variants = valueSource.includes('±')
+            ? [valueSource.replace('±', '+'), valueSource.replace('±', '-')]
+            : [valueSource];
+        for (const variant of variants) {
+            const node = tryParse(variant.replace(/^\+/, ''));
+            if (!node || variablesOf(node).size > 0) return null;
+            assignments.push([variable, evaluate(node, {})]);
+        }
+    }
+    if (assignments.length === 0) return null;
+    const names = new Set(assignments.map(([name]) => name));
+    if (names.size === 1) {
+        return assignments.map(([name, value]) => ({ [name]: value }));
+    }
+    // Several variables, each given once: one solution of a system.
+    return names.size === assignments.length ? [Object.fromEntries(assignments)] : null;
+};
+
+const findBoxed = (text: string): string | null => {
+    const start = text.lastIndexOf('\\boxed{');
+    if (start === -1) return null;
+    let depth = 0;
+    for (let i = start + '\\boxed'.length; i < text.length; i++) {
+        if (text[i] === '{') depth++;
+        if (text[i] === '}' && --depth === 0) return text.slice(start + '\\boxed{'.length, i);
+    }
+    return null;
+};
+
+// The final answer stated in a free-text reply, if there is one.
+export const extractFinalAnswer = (reply: string): string | null => {
+    const boxed = findBoxed(reply);
+    if (boxed) return boxed;
+    const lines = reply.split('\n').map(line => line.replace(/[*_#>]/g, '').trim()).filter(Boolean);
+    for (const line of [...lines].reverse()) {
+        const stated = line.match(/(?:final answer|the answer is|the solutions? (?:is|are))\s*:?\s*(.+)$/i);
+        if (stated) return stated[1];
+    }
+    const lastAssignment = [...lines].reverse().find(line => /^\$*\s*[a-zA-Z]\s*=\s*[^=]+$/.test(line));
+    return lastAssignment ?? null;
+};
+
+const checkEquations = (equations: Equation[], solutions: Scope[], answer: string): AnswerVerification => {
+    for (const solution of solutions) {
+        const assignment = Object.entries(solution).map(([name, value]) => `${name} = ${format(value)}`).join(', ');
+        for (const { source, left, right } of equations) {
+            let lhs: number;
+            let rhs: number;
+            try {
+                lhs = evaluate(left, solution);
+                rhs = evaluate(right, solution);
+            } catch {
+                return { status: 'unverified', detail: `The answer ${answer} does not give a value for every variable in ${source}.` };
+            }
+            if (!Number.isFinite(lhs) || !Number.isFinite(rhs)) {
+                return { status: 'mismatch', detail: `Substituting ${assignment} into ${source} is undefined.` };
+            }
+            if (!close(lhs, rhs)) {
+                return { status: 'mismatch', detail: `Substituting ${assignment} into ${source} gives ${format(lhs)} on the left but ${format(rhs)} on the right.` };
+            }
+        }
+    }
+    const sources = equations.map(e => e.source).join(' and ');
+    // Substitution shows the stated values are solutions, not that the answer lists all of them.
+    return { status: 'checks-out', detail: `Substituting ${answer} back into ${sources} checks out; other solutions are not checked.` };
+};
+
+const checkEquivalence = (problemExpression: Node, answerExpression: Node, answer: string): AnswerVerification => {
+    const names = [...new Set([...variablesOf(problemExpression), ...variablesOf(answerExpression)])];
+    let compared = 0;
+    for (const [i, point] of SAMPLE_POINTS.entries()) {
+        // Each variable gets a different sample value so x and y cannot cancel by accident.
+        const scope = Object.fromEntries(names.map((name, j) => [name, point + j * 0.71 + i * 0.01]));
+        const expected = evaluate(problemExpression, scope);
+        const actual = evaluate(answerExpression, scope);
+        if (!Number.isFinite(expected) || !Number.isFinite(actual)) continue;
+        if (!close(expected, actual)) {
+            const where = names.length ? ` at ${names.map(n => `${n} = ${format(scope[n])}`).join(', ')}` : '';
+            return { status: 'mismatch', detail: `The answer ${answer} evaluates to ${format(actual)}${where}, but the original expression gives ${format(expected)}.` };
+        }
+        compared++;
+    }
+    return compared > 0
+        ? { status: 'verified', detail: `The answer ${answer} is equivalent to the original expression.` }
+        : { status: 'unverified', detail: 'The expressions could not be evaluated at any sample point.' };
+};
+
+// Returns null when the reply states no answer to check, so ordinary explanations get no badge.
+export const verifyAnswer = (problem: string, answer: string | null): AnswerVerification | null => {
+    if (!answer) return null;
+    const shownAnswer = answer.replace(/\$/g, '').trim();
+    try {
+        const equations = extractEquations(problem);
+        if (equations.length > 0) {
+            const solutions = parseSolutions(answer);
+            return solutions
+                ? checkEquations(equations, solutions, shownAnswer)
+                : { status: 'unverified', detail: `Could not read ${shownAnswer} as a set of values.` };
+        }
+        const lastLine = normalizeMath(problem).split('\n').map(line => line.trim()).filter(Boolean).pop() ?? '';
+        if (EQUIVALENCE_VERBS.test(lastLine)) {
+            const problemSource = lastLine.replace(EQUIVALENCE_VERBS, '').replace(/[.?!]+$/, '');
+            const answerSource = normalizeMath(answer).replace(/^[a-zA-Z]\s*=\s*(?=.)/, '').replace(/[.]+$/, '');
+            if (containsWords(problemSource) || containsWords(answerSource)) {
+                return { status: 'unverified', detail: 'The problem is not a plain expression that can be compared with the answer.' };
+            }
+            const problemExpression = tryParse(problemSource);
+            const answerExpression = tryParse(answerSource);
+            if (problemExpression && answerExpression) {
+                return checkEquivalence(problemExpression, answerExpression, shownAnswer);
+            }
+        }
+        return { status: 'unverified', detail: 'Could not find an equation or expression in the problem to check against.' };
+    } catch (error) {
+        return { status: 'unverified', detail: `Could not check this answer: ${(error as Error).message}.` };
+    }
+};
+
+export const recheckPrompt = (answer: string, verification: AnswerVerification): string =>
+    `An automatic check of your final answer (${answer.replace(/\$/g, '').trim()}) failed: ${verification.detail} ` +
+    'Please re-check your work step by step, point out any mistake, and give a corrected final answer.';
@@ -0,0 +1,111 @@
+import type { AnalysisFile, InlineMedia } from './aiProvider';
+
+// Checks and shrinks files before they are sent to the model. Images are decoded, turned upright
+// using their EXIF orientation, downscaled and re-encoded through a canvas; the re-encoded file
+// carries no EXIF block, so camera details and GPS location never leave the device.
+
+export type MediaKind = AnalysisFile['kind'];
+
+const MB = 1024 * 1024;
+
+// Largest original accepted per kind. Videos are never uploaded whole, only sampled frames.
+export const MAX_FILE_BYTES: Record<'image' | 'video' | 'pdf' | 'text', number> = {
+    image: 30 * MB,
+    video: 500 * MB,
+    pdf: 50 * MB,
+    text: 5 * MB,
+};
+// Inline request data the model accepts is about 20 MB; leave room for the text and history.
+export const MAX_REQUEST_BYTES = 18 * MB;
+
+export interface ImageOptions {
+    maxDimension: number;
+    // PNGs up to this size stay PNG, which keeps screenshots of text sharp; everything else becomes JPEG.
+    maxPngBytes?: number;
+}
+
+export const ANALYSIS_IMAGE_OPTIONS: ImageOptions = { maxDimension: 2048, maxPngBytes: 2 * MB };
+const JPEG_QUALITY = 0.85;
+
+export interface PreparedImage {
+    image: InlineMedia;
+    width: number;
+    height: number;
+    originalBytes: number;
+    bytes: number;
+}
+
+export const formatBytes = (bytes: number): string =>
+    bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Bytes represented by base64 data.
+export const decodedBytes = (base64: string) => Math.floor((base64.length * 3) / 4);
+
+export const inlineBytes = (files: AnalysisFile[]): number =>
+    files.reduce((total, file) => {
+        switch (file.kind) {
+            case 'image':
+                return total + decodedBytes(file.image.data);
+            case 'video':
+                return total + file.frames.reduce((sum, frame) => sum + decodedBytes(frame.image.data), 0);
+            case 'document':
+                return total + file.pages.reduce((sum, page) => sum + decodedBytes(page.data), 0) + file.text.length;
+        }
+    }, 0);
+
+// Throws an Error naming the file and the limit when it is too large to process.
+export const validateFileSize = (file: File, limit: keyof typeof MAX_FILE_BYTES) => {
+    if (file.size > MAX_FILE_BYTES[limit]) {
+        throw new Error(`"${file.name}" is ${formatBytes(file.size)}; the limit for ${limit === 'pdf' ? 'PDF' : limit} files is ${formatBytes(MAX_FILE_BYTES[limit])}.`);
+    }
+};
+
+export const readAsBase64 = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+        reader.onerror = () => reject(reader.error ?? new Error('The file could not be read.'));
+        reader.readAsDataURL(blob);
+    });
+
+// `onProgress` receives 0 to 1 across decoding, resizing and encoding. Throws an Error with a
+// message suitable for the student if the image cannot be opened.
+export const prepareImage = async (file: File, options: ImageOptions, onProgress?: (fraction: number) => void): Promise<PreparedImage> => {
+    validateFileSize(file, 'image');
+    onProgress?.(0);
+    let bitmap: ImageBitmap;
+    try {
+        // 'from-image' applies the EXIF orientation, so sideways phone photos come out upright.
+        bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+        throw new Error(`"${file.name}" could not be opened as an image. Try saving it as JPEG or PNG first.`);
+    }
+    onProgress?.(0.4);
+
+    const scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        bitmap.close();
+        throw new Error('Images cannot be processed in this browser.');
+    }
+    const keepPng = file.type === 'image/png' && file.size <= (options.maxPngBytes ?? 0);
+    if (!keepPng) {
+        // Transparent areas would turn black in a JPEG.
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    onProgress?.(0.6);
+
+    const mimeType = keepPng ? 'image/png' : 'image/jpeg';
+    const blob = await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(result => (result ? resolve(result) : reject(new Error(`"${file.name}" could not be converted.`))), mimeType, JPEG_QUALITY));
+    onProgress?.(0.9);
+    const data = await readAsBase64(blob);
+    onProgress?.(1);
+    return { image: { mimeType, data }, width: canvas.width, height: canvas.height, originalBytes: file.size, bytes: blob.size };
+};
@@ -0,0 +1,242 @@
+import { LiveServerMessage, Modality, Content, LiveSendRealtimeInputParameters } from '@google/genai';
+import type { StepSolution } from '../types';
+import type { AIProvider, AnalysisFile, ChatPrompt, InlineMedia, LiveConnectOptions, LiveSessionHandle } from './aiProvider';
+import { titleFromText } from './conversationStore';
+import { formatTimestamp } from './videoFrames';
+import { encodeBase64, CAPTURE_SAMPLE_RATE } from './audioCapture';
+
+// Deterministic offline backend for development and demos without network access or an API key.
+// Replies are derived from the input only, so the same question always gets the same answer.
+
+const STREAM_DELAY_MS = 30;
+const OUTPUT_SAMPLE_RATE = 24000;
+// Seconds of microphone audio that make up one mock speech segment.
+const SEGMENT_SECONDS = 2;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const summarize = (text: string, maxLength = 120) => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength)}…` : singleLine;
+};
+
+const promptText = (prompt: ChatPrompt) =>
+    typeof prompt === 'string' ? prompt : prompt.map(part => part.text ?? '').join('');
+
+const describeAttachments = (prompt: ChatPrompt) => {
+    const types = typeof prompt === 'string' ? [] : prompt.flatMap(part => (part.inlineData?.mimeType ? [part.inlineData.mimeType] : []));
+    return types.length ? `You attached ${types.length} file${types.length === 1 ? '' : 's'} (${types.map(t => `\`${t}\``).join(', ')}).\n\n` : '';
+};
+
+const mockReply = (prompt: ChatPrompt, historyLength: number) =>
+    `**Mock response** (offline mode, turn ${Math.floor(historyLength / 2) + 1})\n\n` +
+    `You asked:\n\n> ${summarize(promptText(prompt))}\n\n` +
+    describeAttachments(prompt) +
+    `This reply comes from the local mock provider. Set \`AI_PROVIDER=gemini\` and a \`GEMINI_API_KEY\` to get real answers.`;
+
+const generateText = async (prompt: ChatPrompt, history: Content[]): Promise<string> => {
+    await delay(STREAM_DELAY_MS);
+    return mockReply(prompt, history.length);
+};
+
+async function* generateTextStream(
+    prompt: ChatPrompt,
+    history: Content[],
+    _useLiteModel: boolean,
+    signal?: AbortSignal
+): AsyncGenerator<string> {
+    const words = mockReply(prompt, history.length).split(/(?<=\s)/);
+    let text = '';
+    for (const word of words) {
+        await delay(STREAM_DELAY_MS);
+        if (signal?.aborted) return;
+        text += word;
+        yield text;
+    }
+}
+
+// `a*x + b` for one side of a linear equation such as "3x - 4" or "-x + 2.5"; null for anything else.
+const parseLinearSide = (side: string): { a: number; b: number; variable?: string } | null => {
+    const terms = side.replace(/\s+/g, '').match(/[+-]?[^+-]+/g);
+    if (!terms) return null;
+    let a = 0;
+    let b = 0;
+    let variable: string | undefined;
+    for (const term of terms) {
+        const variableTerm = term.match(/^([+-]?)(\d+(?:\.\d+)?)?\*?([a-z])$/);
+        if (variableTerm) {
+            if (variable && variable !== variableTerm[3]) return null;
+            variable = variableTerm[3];
+            a += (variableTerm[1] === '-' ? -1 : 1) * Number(variableTerm[2] ?? 1);
+        } else if (/^[+-]?\d+(\.\d+)?$/.test(term)) {
+            b += Number(term);
+        } else {
+            return null;
+        }
+    }
+    return { a, b, variable };
+};
+
+const formatNumber = (n: number) => String(Number.isInteger(n) ? n : Number(n.toFixed(4)));
+const formatCoefficient = (n: number) => (n === 1 ? '' : n === -1 ? '-' : formatNumber(n));
+
+// Solves one-variable linear equations properly so the step view has something real to show;
+// anything else gets a placeholder solution.
+const mockStepSolution = (prompt: string): StepSolution => {
+    const equation = prompt.split('\n').reverse().find(line => line.includes('='))?.trim() ?? summarize(prompt);
+    const [left, right, ...rest] = equation.split('=');
+    const lhs = rest.length === 0 && right !== undefined ? parseLinearSide(left) : null;
+    const rhs = lhs ? parseLinearSide(right) : null;
+    const variable = lhs?.variable ?? rhs?.variable;
+    if (!lhs || !rhs || !variable || lhs.a === rhs.a) {
+        return {
+            problem: equation,
+            steps: [{ expression: equation, justification: 'The offline mock provider can only solve linear equations in one variable.' }],
+            finalAnswer: 'No mock answer available',
+        };
+    }
+    const a = lhs.a - rhs.a;
+    const b = rhs.b - lhs.b;
+    return {
+        problem: equation,
+        steps: [
+            { expression: `$${left.trim()} = ${right.trim()}$`, justification: 'Start from the given equation.' },
+            { expression: `$${formatCoefficient(a)}${variable} = ${formatNumber(b)}$`, justification: `Collect the ${variable} terms on the left and the constants on the right.` },
+            { expression: `$${variable} = ${formatNumber(b / a)}$`, justification: `Divide both sides by ${formatNumber(a)}.` },
+        ],
+        finalAnswer: `$${variable} = ${formatNumber(b / a)}$`,
+    };
+};
+
+const generateStepSolution = async (
+    prompt: ChatPrompt,
+    _history: Content[],
+    _useLiteModel: boolean,
+    signal?: AbortSignal
+): Promise<StepSolution | null> => {
+    await delay(STREAM_DELAY_MS * 10);
+    return signal?.aborted ? null : mockStepSolution(promptText(prompt));
+};
+
+const generateConversationTitle = async (userText: string): Promise<string> => titleFromText(userText);
+
+const followUpNote = (history: Content[]) =>
+    history.length > 0 ? ` (follow-up ${history.length / 2} about the same media)` : '';
+
+const sizeKb = (media: InlineMedia) => Math.round((media.data.length * 3) / 4 / 1024);
+
+const describeFile = (file: AnalysisFile): string => {
+    switch (file.kind) {
+        case 'image':
+            return `- \`${file.name}\`: one \`${file.image.mimeType}\` image (about ${sizeKb(file.image)} KB)`;
+        case 'video': {
+            // Cites the first and last frames so timestamp links can be tried offline.
+            const span = file.frames.length > 0
+                ? ` from [${formatTimestamp(file.frames[0].time)}] to [${formatTimestamp(file.frames[file.frames.length - 1].time)}]`
+                : '';
+            return `- \`${file.name}\`: ${file.frames.length} video frames${span}`;
+        }
+        case 'document':
+            return `- \`${file.name}\`: ${file.pageCount ? `${file.pages.length} of ${file.pageCount} pages rendered, ` : ''}${file.text.length} characters of text`;
+    }
+};
+
+const generateTextAndFiles = async (prompt: string, files: AnalysisFile[], history: Content[] = []): Promise<string> => {
+    await delay(STREAM_DELAY_MS);
+    const followUp = history.length > 0 ? ` (follow-up ${history.length / 2} about the same files)` : '';
+    return `**Mock file analysis**${followUp}\n\nReceived ${files.length} file${files.length === 1 ? '' : 's'}:\n\n` +
+        `${files.map(describeFile).join('\n')}\n\nwith the question:\n\n> ${summarize(prompt)}`;
+};
+
+// A short, quiet 440 Hz tone standing in for synthesized speech.
+const toneChunk = (): string => {
+    const samples = new Int16Array(Math.round(OUTPUT_SAMPLE_RATE * 0.4));
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / OUTPUT_SAMPLE_RATE) * 0.2 * 32767);
+    }
+    return encodeBase64(new Uint8Array(samples.buffer));
+};
+
+const serverMessage = (fields: Partial<LiveServerMessage>): LiveServerMessage =>
+    Object.assign(new LiveServerMessage(), fields);
+
+const connectLive = async ({ config, callbacks }: LiveConnectOptions): Promise<LiveSessionHandle> => {
+    const repliesWithAudio = config.responseModalities?.includes(Modality.AUDIO) ?? false;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    let closed = false;
+    let bufferedSeconds = 0;
+    let segment = 0;
+    let framesSeen = 0;
+
+    const schedule = (fn: () => void, ms = 0) => {
+        const timer = setTimeout(() => {
+            timers.delete(timer);
+            if (!closed) fn();
+        }, ms);
+        timers.add(timer);
+    };
+
+    const respond = (heard: string) => {
+        segment += 1;
+        const n = segment;
+        schedule(() => {
+            callbacks.onmessage(serverMessage({ serverContent: { inputTranscription: { text: heard } } }));
+            if (repliesWithAudio) {
+                const seen = framesSeen > 0 ? `I have seen ${framesSeen} camera frames. ` : '';
+                callbacks.onmessage(serverMessage({ serverContent: { outputTranscription: { text: `Mock reply ${n}. ${seen}` } } }));
+                callbacks.onmessage(serverMessage({
+                    serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: toneChunk() } }] } },
+                }));
+            }
+            callbacks.onmessage(serverMessage({ serverContent: { turnComplete: true } }));
+        }, STREAM_DELAY_MS);
+    };
+
+    schedule(() => {
+        callbacks.onopen?.();
+        if (config.sessionResumption) {
+            callbacks.onmessage(serverMessage({ sessionResumptionUpdate: { resumable: true, newHandle: `mock-session-${Date.now()}` } }));
+        }
+    });
+
+    return {
+        sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => {
+            if (closed) return;
+            if (params.text) {
+                respond(`${params.text} `);
+                return;
+            }
+            const blob = params.audio ?? params.media;
+            const data = blob && 'data' in blob ? blob.data : undefined;
+            if (!data) return;
+            // Camera frames are accepted and counted, but only audio advances the mock's speech.
+            if (blob?.mimeType?.startsWith('image/')) {
+                framesSeen += 1;
+                return;
+            }
+            // Base64 PCM16: 4 characters encode 3 bytes, 2 bytes per sample.
+            bufferedSeconds += (data.length * 3) / 4 / 2 / CAPTURE_SAMPLE_RATE;
+            while (bufferedSeconds >= SEGMENT_SECONDS) {
+                bufferedSeconds -= SEGMENT_SECONDS;
+                respond(`Mock speech segment ${segment + 1}. `);
+            }
+        },
+        close: () => {
+            if (closed) return;
+            closed = true;
+            timers.forEach(clearTimeout);
+            timers.clear();
+            callbacks.onclose?.(new CloseEvent('close'));
+        },
+    };
+};
+
+export const mockProvider: AIProvider = {
+    label: 'Offline mock',
+    generateText,
+    generateTextStream,
+    generateStepSolution,
+    generateConversationTitle,
+    generateTextAndFiles,
+    connectLive,
+};
@@ -0,0 +1,111 @@
+import type { AuthUser } from '../types';
+import { authRequest, startSession, AuthRequestError, SessionTokens } from './authService';
+
+// Browser half of social sign-in: an OpenID Connect authorization-code flow with PKCE.
+// The auth server holds provider configuration, redeems the code and verifies the ID token.
+
+const PENDING_KEY = 'chatgps-oidc-pending';
+
+export interface OidcProvider {
+    id: string;
+    label: string;
+    clientId: string;
+    scope: string;
+    authorizationEndpoint: string;
+}
+
+interface PendingSignIn {
+    providerId: string;
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    redirectUri: string;
+}
+
+const base64url = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const randomToken = () => base64url(crypto.getRandomValues(new Uint8Array(32)));
+
+const codeChallengeFor = async (verifier: string) =>
+    base64url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))));
+
+export const fetchOidcProviders = async (): Promise<OidcProvider[]> => {
+    const { providers } = await authRequest<{ providers: OidcProvider[] }>('/oidc/providers', { method: 'GET' });
+    return providers;
+};
+
+// Redirects the browser to the provider's sign-in page.
+export const startOidcSignIn = async (provider: OidcProvider) => {
+    const pending: PendingSignIn = {
+        providerId: provider.id,
+        state: randomToken(),
+        nonce: randomToken(),
+        codeVerifier: randomToken(),
+        redirectUri: `${window.location.origin}${window.location.pathname}`,
+    };
+    sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+    const url = new URL(provider.authorizationEndpoint);
+    url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: provider.clientId,
+        redirect_uri: pending.redirectUri,
+        scope: provider.scope,
+        state: pending.state,
+        nonce: pending.nonce,
+        code_challenge: await codeChallengeFor(pending.codeVerifier),
+        code_challenge_method: 'S256',
+    }).toString();
+    window.location.assign(url.toString());
+};
+
+// The callback's code can be redeemed only once, but React's StrictMode runs the effect that
+// finishes sign-in twice, so both runs share this exchange.
+let callbackExchange: Promise<AuthUser> | null = null;
+
+export const hasOidcCallback = (): boolean => {
+    if (callbackExchange) return true;
+    const params = new URLSearchParams(window.location.search);
+    return (params.has('code') || params.has('error')) && params.has('state') && sessionStorage.getItem(PENDING_KEY) !== null;
+};
+
+const exchangeCallback = async (): Promise<AuthUser> => {
+    const params = new URLSearchParams(window.location.search);
+    const saved = sessionStorage.getItem(PENDING_KEY);
+    const pending: PendingSignIn | null = saved ? JSON.parse(saved) : null;
+    if (!pending || params.get('state') !== pending.state) {
+        throw new AuthRequestError(400, 'This sign-in attempt could not be verified. Please try again.');
+    }
+    if (params.get('error')) {
+        throw new AuthRequestError(401, params.get('error') === 'access_denied' ? 'Sign-in was cancelled.' : 'The sign-in provider reported an error.');
+    }
+    return startSession(await authRequest<SessionTokens>('/oidc/exchange', {
+        body: {
+            providerId: pending.providerId,
+            code: params.get('code'),
+            codeVerifier: pending.codeVerifier,
+            redirectUri: pending.redirectUri,
+            nonce: pending.nonce,
+        },
+    }));
+};
+
+// Finishes a sign-in after the provider redirects back. Throws AuthRequestError on failure.
+// Calling it again while the exchange is running returns the same result.
+export const completeOidcSignIn = (): Promise<AuthUser> => {
+    if (!callbackExchange) {
+        callbackExchange = exchangeCallback().finally(() => {
+            sessionStorage.removeItem(PENDING_KEY);
+            // Drop the code and state from the address bar so a reload does not replay them.
+            window.history.replaceState(null, '', window.location.pathname);
+            callbackExchange = null;
+        });
+    }
+    return callbackExchange;
+};
@@ -0,0 +1,22 @@
+// Screen or tab sharing for voice conversations. Screens are mostly text, so frames are sent
+// larger than camera frames but less often; unchanged frames are skipped by `streamFrames`.
+
+export const SCREEN_FRAME_INTERVAL_MS = 2000;
+export const SCREEN_FRAME_MAX_DIMENSION = 1280;
+
+export const isScreenShareSupported = () => typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+
+// Resolves to null when the student closes the browser's picker without choosing anything.
+export const startScreenShare = async (): Promise<MediaStream | null> => {
+    if (!isScreenShareSupported()) {
+        throw new Error('This browser cannot share the screen.');
+    }
+    try {
+        return await navigator.mediaDevices.getDisplayMedia({ video: { frameRate: { ideal: 5, max: 10 } }, audio: false });
+    } catch (error) {
+        const name = (error as DOMException).name;
+        // Browsers report a cancelled picker and a refused permission alike, so neither is an error.
+        if (name === 'AbortError' || name === 'NotAllowedError') return null;
+        throw error;
+    }
+};
@@ -0,0 +1,36 @@
+import type { StepSolution } from '../types';
+
+// Structured step-by-step solutions, used for tasks whose template asks for the 'steps' format.
+
+export const STEP_SOLUTION_INSTRUCTION =
+    'Reply with a step-by-step solution. Restate the problem, then give the steps in order: each step has the ' +
+    'expression or equation after that step (LaTeX between $ signs) and a one-sentence justification of the operation ' +
+    'that was applied. Finish with the final answer only, for example "$x = 4$".';
+
+// Checks the model's JSON against the expected shape; throws if it does not match.
+export const parseStepSolution = (json: string): StepSolution => {
+    const value = JSON.parse(json);
+    const isText = (v: unknown): v is string => typeof v === 'string';
+    if (!value || !isText(value.problem) || !isText(value.finalAnswer) || !Array.isArray(value.steps) || value.steps.length === 0) {
+        throw new Error('The model returned an incomplete solution.');
+    }
+    return {
+        problem: value.problem,
+        steps: value.steps.map((step: { expression?: unknown; justification?: unknown }) => {
+            if (!isText(step?.expression) || !isText(step.justification)) {
+                throw new Error('The model returned a malformed solution step.');
+            }
+            return { expression: step.expression, justification: step.justification };
+        }),
+        finalAnswer: value.finalAnswer,
+    };
+};
+
+// A Markdown rendering used wherever the solution is read as text: the model's own history,
+// flagged conversations and conversation titles.
+export const solutionToMarkdown = ({ problem, steps, finalAnswer }: StepSolution): string =>
+    [
+        `**Problem:** ${problem}`,
+        steps.map((step, i) => `${i + 1}. ${step.expression} — ${step.justification}`).join('\n'),
+        `**Final answer:** ${finalAnswer}`,
+    ].join('\n\n');
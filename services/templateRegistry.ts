@@ -0,0 +1,208 @@
+import type { OutputFormat } from '../types';
+import { authorizedRequest } from './authService';
+
+// The subjects and tasks offered by the Homework Helper, and how each one is put to the model.
+// A school's admins can replace the built-in registry from the template editor; the server
+// stores their version and every client picks it up on sign-in.
+
+export const TEMPLATE_SCHEMA_VERSION = 1;
+
+export const GENERAL_SUBJECT = 'General';
+export const GENERAL_PROBLEM_TYPE = 'General Question';
+
+// 'any' leaves the choice to the student's Fast Response toggle.
+export type ModelPreference = 'any' | 'standard' | 'lite';
+export type { OutputFormat };
+
+export const MODEL_PREFERENCES: readonly ModelPreference[] = ['any', 'standard', 'lite'];
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['markdown', 'plain', 'steps'];
+
+export interface SubjectTemplate {
+    name: string;
+    systemInstruction: string;
+}
+
+export interface TaskTemplate {
+    name: string;
+    systemInstruction: string;
+    // Supports {{subject}}, {{task}} and {{input}}.
+    promptTemplate: string;
+    preferredModel: ModelPreference;
+    outputFormat: OutputFormat;
+}
+
+// Settings for one subject/task combination that take precedence over the task's own.
+export interface PairTemplate {
+    subject: string;
+    task: string;
+    systemInstruction?: string;
+    promptTemplate?: string;
+    preferredModel?: ModelPreference;
+    outputFormat?: OutputFormat;
+}
+
+export interface TemplateRegistry {
+    schemaVersion: number;
+    // 0 for the built-in registry; the server increments it on every save.
+    revision: number;
+    updatedAt?: number;
+    updatedBy?: string;
+    subjects: SubjectTemplate[];
+    tasks: TaskTemplate[];
+    pairs: PairTemplate[];
+}
+
+export interface ResolvedTemplate {
+    systemInstruction: string;
+    promptTemplate: string;
+    preferredModel: ModelPreference;
+    outputFormat: OutputFormat;
+}
+
+const EXPERT_PROMPT = 'As an expert in {{subject}}, please help me with the following task: {{task}}.\n\nHere is my problem:\n{{input}}';
+
+const task = (name: string, systemInstruction = '', overrides: Partial<TaskTemplate> = {}): TaskTemplate => ({
+    name,
+    systemInstruction,
+    promptTemplate: EXPERT_PROMPT,
+    preferredModel: 'any',
+    outputFormat: 'markdown',
+    ...overrides,
+});
+
+export const DEFAULT_TEMPLATE_REGISTRY: TemplateRegistry = {
+    schemaVersion: TEMPLATE_SCHEMA_VERSION,
+    revision: 0,
+    subjects: [
+        { name: GENERAL_SUBJECT, systemInstruction: '' },
+        { name: 'Math', systemInstruction: 'Write mathematics in LaTeX between $ signs.' },
+        { name: 'Science', systemInstruction: 'Use SI units and name the scientific principle behind each explanation.' },
+        { name: 'English', systemInstruction: '' },
+        { name: 'History', systemInstruction: 'Give dates and cite the sources or historians behind historical claims where possible.' },
+        { name: 'Computer Science', systemInstruction: 'Put code in fenced code blocks tagged with the language.' },
+    ],
+    tasks: [
+        task(GENERAL_PROBLEM_TYPE),
+        task('Solve an Equation', 'Show each algebraic step on its own line and check the result by substitution.', { outputFormat: 'steps' }),
+        task('Explain a Concept', 'Start with an intuitive explanation, then give a worked example.'),
+        task('Outline an Essay', 'Structure the outline as a thesis followed by numbered sections with supporting points.'),
+        task('Debug Code', 'Explain the cause of each bug before showing the fix.'),
+        task('Fact Check', 'Say clearly whether each claim is true, false or uncertain, and why.'),
+    ],
+    pairs: [
+        // A plain question with no subject goes to the model as typed.
+        { subject: GENERAL_SUBJECT, task: GENERAL_PROBLEM_TYPE, promptTemplate: '{{input}}' },
+    ],
+};
+
+export const resolveTemplate = (registry: TemplateRegistry, subject: string, taskName: string): ResolvedTemplate => {
+    const subjectTemplate = registry.subjects.find(s => s.name === subject);
+    const taskTemplate = registry.tasks.find(t => t.name === taskName) ?? task(taskName);
+    const pair = registry.pairs.find(p => p.subject === subject && p.task === taskName);
+    return {
+        systemInstruction: [subjectTemplate?.systemInstruction, taskTemplate.systemInstruction, pair?.systemInstruction]
+            .map(part => part?.trim())
+            .filter(Boolean)
+            .join('\n'),
+        promptTemplate: pair?.promptTemplate ?? taskTemplate.promptTemplate,
+        preferredModel: pair?.preferredModel ?? taskTemplate.preferredModel,
+        outputFormat: pair?.outputFormat ?? taskTemplate.outputFormat,
+    };
+};
+
+// Fills in {{subject}}, {{task}} and {{input}}; unknown variables are left as written.
+export const renderPrompt = (template: string, variables: { subject: string; task: string; input: string }): string =>
+    template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        name in variables ? variables[name as keyof typeof variables] : placeholder);
+
+const assertString = (value: unknown, field: string): string => {
+    if (typeof value !== 'string') {
+        throw new Error(`${field} must be text.`);
+    }
+    return value;
+};
+
+const assertOneOf = <T extends string>(value: unknown, allowed: readonly T[], field: string): T => {
+    if (!allowed.includes(value as T)) {
+        throw new Error(`${field} must be one of: ${allowed.join(', ')}.`);
+    }
+    return value as T;
+};
+
+const assertUniqueNames = (items: { name: string }[], kind: string) => {
+    const seen = new Set<string>();
+    for (const { name } of items) {
+        if (!name.trim()) throw new Error(`Every ${kind} needs a name.`);
+        if (seen.has(name)) throw new Error(`There are two ${kind}s named "${name}".`);
+        seen.add(name);
+    }
+};
+
+// Checks an imported or fetched registry and returns it in canonical form; throws an Error
+// describing the first problem found.
+export const parseTemplateRegistry = (value: unknown): TemplateRegistry => {
+    if (!value || typeof value !== 'object') {
+        throw new Error('Templates must be a JSON object.');
+    }
+    const raw = value as Record<string, unknown>;
+    if (raw.schemaVersion !== TEMPLATE_SCHEMA_VERSION) {
+        throw new Error(`Unsupported template schema version ${String(raw.schemaVersion)}; expected ${TEMPLATE_SCHEMA_VERSION}.`);
+    }
+    if (!Array.isArray(raw.subjects) || raw.subjects.length === 0 || !Array.isArray(raw.tasks) || raw.tasks.length === 0) {
+        throw new Error('Templates need at least one subject and one task.');
+    }
+    const subjects = raw.subjects.map((s: Record<string, unknown>, i): SubjectTemplate => ({
+        name: assertString(s?.name, `Subject ${i + 1} name`).trim(),
+        systemInstruction: assertString(s.systemInstruction ?? '', `Subject "${s.name}" system instruction`),
+    }));
+    const tasks = raw.tasks.map((t: Record<string, unknown>, i): TaskTemplate => ({
+        name: assertString(t?.name, `Task ${i + 1} name`).trim(),
+        systemInstruction: assertString(t.systemInstruction ?? '', `Task "${t.name}" system instruction`),
+        promptTemplate: assertString(t.promptTemplate ?? EXPERT_PROMPT, `Task "${t.name}" prompt template`),
+        preferredModel: assertOneOf(t.preferredModel ?? 'any', MODEL_PREFERENCES, `Task "${t.name}" preferred model`),
+        outputFormat: assertOneOf(t.outputFormat ?? 'markdown', OUTPUT_FORMATS, `Task "${t.name}" output format`),
+    }));
+    assertUniqueNames(subjects, 'subject');
+    assertUniqueNames(tasks, 'task');
+    const pairs = (Array.isArray(raw.pairs) ? raw.pairs : []).map((p: Record<string, unknown>, i): PairTemplate => {
+        const label = `Combination ${i + 1}`;
+        const pair: PairTemplate = {
+            subject: assertString(p?.subject, `${label} subject`),
+            task: assertString(p.task, `${label} task`),
+        };
+        if (!subjects.some(s => s.name === pair.subject) || !tasks.some(t => t.name === pair.task)) {
+            throw new Error(`${label} refers to an unknown subject or task (${pair.subject} / ${pair.task}).`);
+        }
+        if (p.systemInstruction !== undefined) pair.systemInstruction = assertString(p.systemInstruction, `${label} system instruction`);
+        if (p.promptTemplate !== undefined) pair.promptTemplate = assertString(p.promptTemplate, `${label} prompt template`);
+        if (p.preferredModel !== undefined) pair.preferredModel = assertOneOf(p.preferredModel, MODEL_PREFERENCES, `${label} preferred model`);
+        if (p.outputFormat !== undefined) pair.outputFormat = assertOneOf(p.outputFormat, OUTPUT_FORMATS, `${label} output format`);
+        return pair;
+    });
+    return {
+        schemaVersion: TEMPLATE_SCHEMA_VERSION,
+        revision: typeof raw.revision === 'number' ? raw.revision : 0,
+        updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : undefined,
+        updatedBy: typeof raw.updatedBy === 'string' ? raw.updatedBy : undefined,
+        subjects,
+        tasks,
+        pairs,
+    };
+};
+
+// The school's registry, or the built-in one if none has been saved or it cannot be loaded.
+export const fetchTemplateRegistry = async (): Promise<TemplateRegistry> => {
+    try {
+        const { registry } = await authorizedRequest<{ registry: unknown }>('/api/templates', { method: 'GET' });
+        return registry ? parseTemplateRegistry(registry) : DEFAULT_TEMPLATE_REGISTRY;
+    } catch (error) {
+        console.error('Failed to load templates, using the built-in ones:', error);
+        return DEFAULT_TEMPLATE_REGISTRY;
+    }
+};
+
+// Fails with a 409 if another save has happened since `registry.revision`.
+export const saveTemplateRegistry = async (registry: TemplateRegistry): Promise<TemplateRegistry> => {
+    const { registry: saved } = await authorizedRequest<{ registry: unknown }>('/api/templates', { method: 'PUT', body: { registry } });
+    return parseTemplateRegistry(saved);
+};
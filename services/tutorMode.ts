@@ -0,0 +1,76 @@
+import type { ChatMessage } from '../types';
+import { aiProvider } from './aiProvider';
+import { messageText } from './conversationStore';
+
+// Hint-only tutoring. The model is steered by a Socratic system instruction, and because
+// instructions alone are not a guarantee, replies are also checked for leaked final answers
+// until the student has made enough genuine attempts of their own.
+
+export const MIN_ATTEMPTS_BEFORE_ANSWER = 2;
+
+// Messages that ask for the answer instead of trying: "idk", "just tell me", "what's the answer?".
+const NON_ATTEMPT_PATTERN = /^(i\s*(don'?t|do not)\s*know|idk|no idea|help|hint\??|just tell me.*|(what'?s|what is|give me) the (final )?answer.*|(ok(ay)?|yes|no|thanks?( you)?)[.!?]*)$/i;
+const MIN_ATTEMPT_LENGTH = 6;
+// An attempt has to show some working: a number, an operator or an equation, so that chatter such
+// as "ok thanks" cannot unlock the answer.
+const WORK_PATTERN = /\d|[=+*/^<>×÷−√]|\s-\s/;
+
+const LEAK_PATTERNS = [
+    /\b(the|my|your|our) final answer\b/i,
+    /\bfinal answer\s*[:=]/i,
+    /\bthe (correct )?answer is\b/i,
+    /\bthe solutions? (is|are)\b/i,
+    /\\boxed\{/,
+    // A line that consists of nothing but solved values, such as "x = 4" or "**x = 2 or x = -2**".
+    /^[\s>*_$\\()[\]]*[a-z]\s*=\s*[-+−]?\d+(?:[.,/]\d+)?(?:\s*(?:,|or|and)\s*[a-z]\s*=\s*[-+−]?\d+(?:[.,/]\d+)?)*[\s*_$\\()[\].]*$/im,
+];
+
+const HINT_FALLBACK =
+    "I've worked through this one, but in tutor mode I'll hold back the final answer until you've had a go yourself. " +
+    'What do you think the first step should be? Share your attempt and I will tell you whether you are on the right track.';
+
+// Student turns after the first question that contain real work rather than a request for the
+// answer. This only runs in the browser, so it keeps honest students on track rather than
+// preventing a determined one from getting the answer.
+export const countAttempts = (messages: ChatMessage[]): number =>
+    messages
+        .filter(message => message.role === 'user')
+        .slice(1)
+        .map(message => messageText(message).trim())
+        .filter(text => text.length >= MIN_ATTEMPT_LENGTH && !NON_ATTEMPT_PATTERN.test(text) && WORK_PATTERN.test(text))
+        .length;
+
+export const leaksFinalAnswer = (text: string): boolean => LEAK_PATTERNS.some(pattern => pattern.test(text));
+
+export const buildTutorInstruction = (subject: string, problemType: string, attempts: number): string => {
+    const answerUnlocked = attempts >= MIN_ATTEMPTS_BEFORE_ANSWER;
+    return [
+        `TUTOR MODE is on for this ${subject} conversation (task: ${problemType}). Act as a Socratic tutor, not an answer key.`,
+        '- Guide with hints, leading questions and small next steps. Ask one question at a time.',
+        "- When the student shares work, check it: say what is right, point to the first mistake without fixing it, and ask them to try again.",
+        '- Never write out a complete solution, finished essay or fully corrected code.',
+        answerUnlocked
+            ? `- The student has made ${attempts} genuine attempts. You may now confirm or reveal the final answer, explaining how it follows from their own work.`
+            : `- The student has made ${attempts} of the ${MIN_ATTEMPTS_BEFORE_ANSWER} genuine attempts required. Do NOT state the final answer, a boxed result or the solved value, even if asked directly; encourage another attempt instead.`,
+    ].join('\n');
+};
+
+// Rewrites a reply that gave the answer away into a hint, falling back to a fixed nudge if the
+// rewrite still leaks it.
+export const enforceHintOnly = async (question: string, reply: string): Promise<string> => {
+    try {
+        const rewritten = await aiProvider.generateText(
+            'You are reviewing a tutoring reply that reveals the final answer too early. Rewrite it as a hint for the student: ' +
+            'keep the guidance and the next step, remove the final answer and any solved values, and end with a question that ' +
+            `invites the student to continue. Reply with the rewritten message only.\n\nStudent's question:\n${question}\n\nReply to rewrite:\n${reply}`,
+            [],
+            true
+        );
+        if (rewritten.trim() && !leaksFinalAnswer(rewritten)) {
+            return rewritten;
+        }
+    } catch (error) {
+        console.error('Failed to rewrite tutor reply:', error);
+    }
+    return HINT_FALLBACK;
+};
@@ -0,0 +1,151 @@
+import type { InlineMedia, VideoFrame } from './aiProvider';
+
+// Samples still frames from a video for analysis. Frames are downscaled, labelled with their
+// time in the video, and optionally kept only where the picture changes, so a long lecture
+// recording is covered by its slide changes rather than by a handful of evenly spaced frames.
+
+export interface FrameSamplingOptions {
+    mode: 'count' | 'fps';
+    frameCount: number;
+    fps: number;
+    // Longest edge of each frame in pixels.
+    maxDimension: number;
+    detectSceneChanges: boolean;
+}
+
+export const DEFAULT_SAMPLING_OPTIONS: FrameSamplingOptions = {
+    mode: 'count',
+    frameCount: 10,
+    fps: 0.5,
+    maxDimension: 768,
+    detectSceneChanges: false,
+};
+
+export const FRAME_SIZE_OPTIONS = [512, 768, 1024];
+// Keeps requests within the model's input limits however long the video is.
+export const MAX_FRAMES = 120;
+// With scene detection, candidates are scanned this many times more densely than frames are kept.
+const SCAN_FACTOR = 4;
+const MAX_SCANNED_FRAMES = 480;
+// Frames are compared as small grayscale thumbnails; a mean difference above this is a new scene.
+const SIGNATURE_SIZE = 32;
+const SCENE_CHANGE_THRESHOLD = 0.08;
+const JPEG_QUALITY = 0.8;
+
+// "01:32", or "1:02:05" for videos of an hour or more.
+export const formatTimestamp = (seconds: number): string => {
+    const total = Math.max(0, Math.floor(seconds));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = total % 60;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+// The inverse of formatTimestamp; null for anything that is not mm:ss or h:mm:ss.
+export const parseTimestamp = (text: string): number | null => {
+    const match = text.trim().match(/^(?:(\d{1,2}):)?(\d{1,2}):(\d{2})$/);
+    if (!match || Number(match[3]) >= 60 || (match[1] !== undefined && Number(match[2]) >= 60)) return null;
+    return Number(match[1] ?? 0) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+// How many frames the options ask for in a video of this length, before scene detection.
+export const plannedFrameCount = (duration: number, options: FrameSamplingOptions): number => {
+    const wanted = options.mode === 'fps' ? Math.floor(duration * options.fps) : options.frameCount;
+    return Math.max(1, Math.min(MAX_FRAMES, wanted));
+};
+
+// Evenly spaced times, each in the middle of its slice so the first frame is not a black fade-in.
+const evenlySpaced = (duration: number, count: number) =>
+    Array.from({ length: count }, (_, i) => ((i + 0.5) * duration) / count);
+
+const seekTo = (video: HTMLVideoElement, time: number) =>
+    new Promise<void>((resolve, reject) => {
+        if (Math.abs(video.currentTime - time) < 0.001) {
+            resolve();
+            return;
+        }
+        video.onseeked = () => resolve();
+        video.onerror = () => reject(new Error('The video could not be read.'));
+        video.currentTime = time;
+    });
+
+const signatureOf = (source: HTMLCanvasElement, scratch: CanvasRenderingContext2D): Float32Array => {
+    scratch.drawImage(source, 0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+    const { data } = scratch.getImageData(0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+    const signature = new Float32Array(SIGNATURE_SIZE * SIGNATURE_SIZE);
+    for (let i = 0; i < signature.length; i++) {
+        signature[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    }
+    return signature;
+};
+
+const difference = (a: Float32Array, b: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+    return sum / a.length;
+};
+
+const createContext = (width: number, height: number, options?: CanvasRenderingContext2DSettings) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', options);
+    if (!context) {
+        throw new Error('Could not get canvas context.');
+    }
+    return context;
+};
+
+// Seeks through `video` (which is left paused at the start) and resolves to the sampled frames in
+// time order. `onProgress` receives the share of the video scanned so far, from 0 to 1.
+export const sampleFrames = async (
+    video: HTMLVideoElement,
+    options: FrameSamplingOptions,
+    onProgress?: (fraction: number) => void
+): Promise<VideoFrame[]> => {
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+        await new Promise<void>((resolve, reject) => {
+            video.onloadeddata = () => resolve();
+            video.onerror = () => reject(new Error('The video could not be read.'));
+        });
+    }
+    const { duration, videoWidth, videoHeight } = video;
+    if (!Number.isFinite(duration) || duration <= 0) {
+        throw new Error("Could not read the video's length.");
+    }
+    video.pause();
+
+    const scale = Math.min(1, options.maxDimension / Math.max(videoWidth, videoHeight));
+    const frame = createContext(Math.round(videoWidth * scale), Math.round(videoHeight * scale));
+    const scratch = createContext(SIGNATURE_SIZE, SIGNATURE_SIZE, { willReadFrequently: true });
+
+    const budget = plannedFrameCount(duration, options);
+    const times = evenlySpaced(duration, options.detectSceneChanges ? Math.min(MAX_SCANNED_FRAMES, budget * SCAN_FACTOR) : budget);
+    const kept: { frame: VideoFrame; score: number }[] = [];
+    let lastSignature: Float32Array | null = null;
+
+    for (const [i, time] of times.entries()) {
+        await seekTo(video, time);
+        frame.drawImage(video, 0, 0, frame.canvas.width, frame.canvas.height);
+        let score = Infinity;
+        if (options.detectSceneChanges) {
+            const signature = signatureOf(frame.canvas, scratch);
+            score = lastSignature ? difference(signature, lastSignature) : Infinity;
+            if (score < SCENE_CHANGE_THRESHOLD) {
+                onProgress?.((i + 1) / times.length);
+                continue;
+            }
+            lastSignature = signature;
+        }
+        const image: InlineMedia = { mimeType: 'image/jpeg', data: frame.canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1] };
+        kept.push({ frame: { time, image }, score });
+        onProgress?.((i + 1) / times.length);
+    }
+    await seekTo(video, 0);
+
+    // More scene changes than the budget allows: keep the biggest changes (the first frame always
+    // scores Infinity), then put them back in time order.
+    const selected = kept.length > budget ? [...kept].sort((a, b) => b.score - a.score).slice(0, budget) : kept;
+    return selected.map(k => k.frame).sort((a, b) => a.time - b.time);
+};
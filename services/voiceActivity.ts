@@ -0,0 +1,59 @@
+// A lightweight voice activity check on captured microphone chunks, used to notice that the
+// student has started talking over a spoken reply without waiting for the server to say so.
+// It compares each chunk's loudness with a slowly adapting estimate of the background noise,
+// and only reports speech once it has lasted a few chunks, so a cough or a click does not count.
+
+export interface VoiceActivityOptions {
+    // Minimum RMS level (0 to 1) that can count as speech, however quiet the room.
+    minLevel?: number;
+    // How many times louder than the background noise speech must be.
+    noiseRatio?: number;
+    // Consecutive loud chunks needed before speech is reported.
+    minSpeechChunks?: number;
+}
+
+export interface VoiceActivityDetector {
+    // Returns true on the chunk where sustained speech begins, and false otherwise.
+    push: (pcm: Int16Array) => boolean;
+    reset: () => void;
+}
+
+const NOISE_ADAPTATION = 0.05;
+const INITIAL_NOISE_LEVEL = 0.01;
+
+// Root-mean-square level of a 16-bit PCM chunk, from 0 (silence) to 1.
+export const rmsLevel = (pcm: Int16Array): number => {
+    if (pcm.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < pcm.length; i++) {
+        const sample = pcm[i] / 32768;
+        sum += sample * sample;
+    }
+    return Math.sqrt(sum / pcm.length);
+};
+
+export const createVoiceActivityDetector = ({
+    minLevel = 0.03,
+    noiseRatio = 3,
+    minSpeechChunks = 3,
+}: VoiceActivityOptions = {}): VoiceActivityDetector => {
+    let noiseLevel = INITIAL_NOISE_LEVEL;
+    let loudChunks = 0;
+
+    return {
+        push: (pcm) => {
+            const level = rmsLevel(pcm);
+            if (level < Math.max(minLevel, noiseLevel * noiseRatio)) {
+                // Only quiet chunks teach the detector what the room sounds like.
+                noiseLevel += (level - noiseLevel) * NOISE_ADAPTATION;
+                loudChunks = 0;
+                return false;
+            }
+            loudChunks += 1;
+            return loudChunks === minSpeechChunks;
+        },
+        reset: () => {
+            loudChunks = 0;
+        },
+    };
+};
@@ -0,0 +1,174 @@
+import { Modality, LiveConnectConfig } from '@google/genai';
+
+// How Live Chat sounds and behaves for one student: the voice, a speaking-rate hint, the reply
+// language, a persona, and whether replies are spoken or only shown as text. The profile is kept
+// per user in localStorage and turned into the session's configuration when a conversation starts.
+
+export type SpeakingRate = 'slow' | 'normal' | 'fast';
+export type ReplyMode = 'audio' | 'text';
+
+export interface VoiceOption {
+    name: string;
+    description: string;
+}
+
+export interface Persona {
+    id: string;
+    name: string;
+    description: string;
+    instruction: string;
+}
+
+export interface LanguageOption {
+    // 'auto' replies in whatever language the student speaks.
+    code: string;
+    name: string;
+}
+
+export interface VoiceProfile {
+    voiceName: string;
+    speakingRate: SpeakingRate;
+    language: string;
+    personaId: string;
+    // Used by the 'custom' persona.
+    customInstruction: string;
+    replyMode: ReplyMode;
+}
+
+// Prebuilt voices offered by the Live API.
+export const VOICES: readonly VoiceOption[] = [
+    { name: 'Zephyr', description: 'Bright' },
+    { name: 'Puck', description: 'Upbeat' },
+    { name: 'Charon', description: 'Informative' },
+    { name: 'Kore', description: 'Firm' },
+    { name: 'Fenrir', description: 'Excitable' },
+    { name: 'Leda', description: 'Youthful' },
+    { name: 'Orus', description: 'Firm' },
+    { name: 'Aoede', description: 'Breezy' },
+];
+
+export const SPEAKING_RATES: Record<SpeakingRate, { label: string; hint: string }> = {
+    slow: { label: 'Slow', hint: 'Speak slowly and clearly, with short pauses between sentences.' },
+    normal: { label: 'Normal', hint: '' },
+    fast: { label: 'Fast', hint: 'Speak at a brisk pace and keep replies especially short.' },
+};
+
+export const LANGUAGES: readonly LanguageOption[] = [
+    { code: 'auto', name: 'Same as the student' },
+    { code: 'en', name: 'English' },
+    { code: 'es', name: 'Spanish' },
+    { code: 'fr', name: 'French' },
+    { code: 'de', name: 'German' },
+    { code: 'it', name: 'Italian' },
+    { code: 'pt', name: 'Portuguese' },
+    { code: 'zh', name: 'Mandarin Chinese' },
+    { code: 'ja', name: 'Japanese' },
+    { code: 'ko', name: 'Korean' },
+    { code: 'hi', name: 'Hindi' },
+    { code: 'ar', name: 'Arabic' },
+];
+
+export const CUSTOM_PERSONA_ID = 'custom';
+
+export const PERSONAS: readonly Persona[] = [
+    {
+        id: 'assistant',
+        name: 'Study assistant',
+        description: 'Friendly help with any school question.',
+        instruction: 'You are ChatGPS, a friendly and helpful AI assistant for students. Keep your answers concise and conversational.',
+    },
+    {
+        id: 'language-partner',
+        name: 'Language practice partner',
+        description: 'Chats in the language being learned and gently corrects mistakes.',
+        instruction: 'You are ChatGPS, a patient conversation partner helping a student practise a foreign language. Keep the conversation going with simple questions about everyday topics. When the student makes a mistake, repeat their sentence correctly once, briefly, and carry on. Use vocabulary suited to a learner.',
+    },
+    {
+        id: 'oral-examiner',
+        name: 'Oral exam examiner',
+        description: 'Runs a mock oral exam and gives feedback at the end.',
+        instruction: 'You are ChatGPS acting as an examiner in a school oral exam. Ask one question at a time, follow up on vague answers, and do not help the student during the exam. When the student says they are finished, give a short assessment of their strengths, weaknesses and an indicative grade.',
+    },
+    {
+        id: 'socratic-tutor',
+        name: 'Socratic tutor',
+        description: 'Answers questions with guiding questions instead of solutions.',
+        instruction: 'You are ChatGPS, a Socratic tutor. Never give the final answer directly; guide the student with short questions and hints so they work it out themselves.',
+    },
+    {
+        id: CUSTOM_PERSONA_ID,
+        name: 'Custom',
+        description: 'Your own instructions.',
+        instruction: '',
+    },
+];
+
+export const DEFAULT_VOICE_PROFILE: VoiceProfile = {
+    voiceName: 'Zephyr',
+    speakingRate: 'normal',
+    language: 'auto',
+    personaId: 'assistant',
+    customInstruction: '',
+    replyMode: 'audio',
+};
+
+const profileKey = (username: string) => `chatgps-voice-profile-${username}`;
+
+// Unknown or missing values, e.g. from an older version of the app, fall back to the defaults.
+const sanitizeProfile = (value: Partial<VoiceProfile>): VoiceProfile => ({
+    voiceName: VOICES.some(v => v.name === value.voiceName) ? value.voiceName! : DEFAULT_VOICE_PROFILE.voiceName,
+    speakingRate: value.speakingRate && value.speakingRate in SPEAKING_RATES ? value.speakingRate : DEFAULT_VOICE_PROFILE.speakingRate,
+    language: LANGUAGES.some(l => l.code === value.language) ? value.language! : DEFAULT_VOICE_PROFILE.language,
+    personaId: PERSONAS.some(p => p.id === value.personaId) ? value.personaId! : DEFAULT_VOICE_PROFILE.personaId,
+    customInstruction: typeof value.customInstruction === 'string' ? value.customInstruction : '',
+    replyMode: value.replyMode === 'text' ? 'text' : 'audio',
+});
+
+export const loadVoiceProfile = (username: string): VoiceProfile => {
+    try {
+        const saved = localStorage.getItem(profileKey(username));
+        if (saved) {
+            return sanitizeProfile(JSON.parse(saved));
+        }
+    } catch (error) {
+        console.error("Failed to load voice profile from localStorage", error);
+    }
+    return DEFAULT_VOICE_PROFILE;
+};
+
+export const saveVoiceProfile = (username: string, profile: VoiceProfile) => {
+    try {
+        localStorage.setItem(profileKey(username), JSON.stringify(profile));
+    } catch (error) {
+        console.error("Failed to save voice profile to localStorage", error);
+    }
+};
+
+export const personaFor = (profile: VoiceProfile): Persona =>
+    PERSONAS.find(p => p.id === profile.personaId) ?? PERSONAS[0];
+
+export const buildSystemInstruction = (profile: VoiceProfile): string => {
+    const persona = personaFor(profile);
+    const language = LANGUAGES.find(l => l.code === profile.language);
+    const personaInstruction = persona.id === CUSTOM_PERSONA_ID
+        ? profile.customInstruction.trim() || PERSONAS[0].instruction
+        : persona.instruction;
+    return [
+        personaInstruction,
+        language && language.code !== 'auto'
+            ? `Always speak ${language.name}, even if the student uses another language.`
+            : 'Reply in the language the student speaks.',
+        SPEAKING_RATES[profile.speakingRate].hint,
+        'The student may share their screen with you, in which case you also receive images of it.',
+    ].filter(Boolean).join(' ');
+};
+
+// Native-audio Live models always answer in speech, so in text mode the reply is transcribed and
+// shown but not played.
+export const buildLiveConfig = (profile: VoiceProfile): LiveConnectConfig => ({
+    responseModalities: [Modality.AUDIO],
+    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: profile.voiceName } } },
+    systemInstruction: buildSystemInstruction(profile),
+    inputAudioTranscription: {},
+    outputAudioTranscription: {},
+});
@@ -0,0 +1,111 @@
+import type { ChatMessage } from '../types';
+import { titleFromText } from './conversationStore';
+
+// Assembles the transcription chunks of a Live API voice session into turns. It is a pure
+// reducer so components can feed it straight from session callbacks without stale state, and
+// it copes with the orders the server actually uses: a reply may be cut off by the student,
+// and the student's next words can arrive before the reply's `turnComplete`.
+
+export interface VoiceTurn {
+    user: string;
+    model: string;
+    // Epoch milliseconds when the student started speaking, or when the reply started if the
+    // turn has no speech from the student.
+    startedAt: number;
+    repliedAt?: number;
+    endedAt?: number;
+    // The student talked over the reply and the rest of it was never heard.
+    interrupted?: boolean;
+}
+
+export interface VoiceTranscript {
+    turns: VoiceTurn[];
+    // The turn still being transcribed.
+    current: VoiceTurn | null;
+    // The last finished turn was closed by new speech rather than by the server's `turnComplete`,
+    // so a late `interrupted` notice still refers to it.
+    lastTurnOpen: boolean;
+}
+
+export type TranscriptEvent =
+    | { type: 'input'; text: string; at: number }
+    | { type: 'output'; text: string; at: number }
+    | { type: 'interrupted'; at: number }
+    | { type: 'turnComplete'; at: number }
+    // The session ended; whatever was being transcribed becomes a turn.
+    | { type: 'end'; at: number }
+    | { type: 'reset' };
+
+export const EMPTY_TRANSCRIPT: VoiceTranscript = { turns: [], current: null, lastTurnOpen: false };
+
+const finish = (state: VoiceTranscript, at: number, changes: Partial<VoiceTurn> = {}, lastTurnOpen = false): VoiceTranscript =>
+    state.current
+        ? { turns: [...state.turns, { ...state.current, endedAt: at, ...changes }], current: null, lastTurnOpen }
+        : { ...state, lastTurnOpen };
+
+export const applyTranscriptEvent = (state: VoiceTranscript, event: TranscriptEvent): VoiceTranscript => {
+    switch (event.type) {
+        case 'input': {
+            const { current } = state;
+            // Speech after a reply has started begins the next turn.
+            if (current?.model) {
+                const finished = finish(state, event.at, {}, true);
+                return { ...finished, current: { user: event.text, model: '', startedAt: event.at } };
+            }
+            return {
+                ...state,
+                current: current ? { ...current, user: current.user + event.text } : { user: event.text, model: '', startedAt: event.at },
+            };
+        }
+        case 'output': {
+            const { current } = state;
+            if (!current) {
+                return { ...state, current: { user: '', model: event.text, startedAt: event.at, repliedAt: event.at } };
+            }
+            return { ...state, current: { ...current, model: current.model + event.text, repliedAt: current.repliedAt ?? event.at } };
+        }
+        case 'interrupted': {
+            if (state.current?.model) {
+                return finish(state, event.at, { interrupted: true });
+            }
+            const last = state.turns[state.turns.length - 1];
+            if (state.lastTurnOpen && last?.model) {
+                return { ...state, turns: [...state.turns.slice(0, -1), { ...last, interrupted: true }], lastTurnOpen: false };
+            }
+            return state;
+        }
+        case 'turnComplete':
+            // A `turnComplete` for a turn already closed by new speech only closes it for good.
+            return state.current && !state.current.model && state.lastTurnOpen ? { ...state, lastTurnOpen: false } : finish(state, event.at);
+        case 'end':
+            return finish(state, event.at);
+        case 'reset':
+            return EMPTY_TRANSCRIPT;
+    }
+};
+
+// The turns as chat messages, so a voice session can be saved and continued in Student Chat.
+export const transcriptToMessages = (turns: VoiceTurn[]): ChatMessage[] =>
+    turns.flatMap(turn => {
+        const messages: ChatMessage[] = [];
+        if (turn.user.trim()) {
+            messages.push({ role: 'user', parts: [{ text: turn.user.trim() }], spokenAt: turn.startedAt });
+        }
+        if (turn.model.trim()) {
+            messages.push({
+                role: 'model',
+                parts: [{ text: turn.model.trim() }],
+                spokenAt: turn.repliedAt ?? turn.startedAt,
+                ...(turn.interrupted ? { interrupted: true } : {}),
+            });
+        }
+        return messages;
+    });
+
+export const formatClockTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Named after the first thing the student said.
+export const voiceSessionTitle = (turns: VoiceTurn[]): string => {
+    const firstWords = turns.find(turn => turn.user.trim())?.user ?? '';
+    return firstWords.trim() ? titleFromText(firstWords) : 'Voice conversation';
+};
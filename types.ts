@@ -1,5 +1,75 @@
 
+export type OutputFormat = 'markdown' | 'plain' | 'steps';
+
+export interface SolutionStep {
+  expression: string;
+  justification: string;
+}
+
+export interface StepSolution {
+  problem: string;
+  steps: SolutionStep[];
+  finalAnswer: string;
+}
+
+export interface AnswerVerification {
+  // 'checks-out' means the stated solutions satisfy the equations, not that none are missing.
+  status: 'verified' | 'checks-out' | 'unverified' | 'mismatch';
+  detail: string;
+}
+
+export interface TextPart {
+  text: string;
+}
+
+// An image or document attached to a student message and sent to the model inline. `data` is
+// base64; it is emptied when the file had to be dropped to fit the browser's storage quota.
+export interface AttachmentPart {
+  inlineData: { mimeType: string; data: string };
+  fileName: string;
+}
+
+export type MessagePart = TextPart | AttachmentPart;
+
 export interface ChatMessage {
   role: 'user' | 'model';
-  parts: { text: string }[];
+  // Model replies hold a single text part; student messages list attachments before their text.
+  parts: MessagePart[];
+  // How a model reply is rendered; taken from the task template it was generated with.
+  outputFormat?: OutputFormat;
+  // Present on replies in the 'steps' format; `parts` then holds a Markdown version of it.
+  solution?: StepSolution;
+  // Result of checking the reply's final answer locally; absent when it states no answer.
+  verification?: AnswerVerification;
+  // Sent by the app rather than typed by the student, e.g. asking the model to re-check an answer.
+  isAutomatic?: boolean;
+  // Set on turns transcribed from a voice session: when they were spoken (epoch milliseconds),
+  // and whether the student cut the reply off.
+  spokenAt?: number;
+  interrupted?: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  subject: string;
+  problemType: string;
+  // Hint-only tutoring chosen by the student; a teacher's lock can force it on regardless.
+  tutorMode?: boolean;
+  // 'voice' for a saved Live Chat session; it can be continued as an ordinary text conversation.
+  source?: 'voice';
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type UserRole = 'student' | 'teacher' | 'admin';
+
+export interface AuthUser {
+  username: string;
+  role: UserRole;
+  // Identity claims, present for accounts signed in through a social provider.
+  displayName?: string;
+  email?: string;
+  picture?: string;
 }
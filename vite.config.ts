@@ -1,18 +1,56 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Pyodide loads its WASM runtime and standard library at run time from `indexURL`, so the code
+// runner's Python interpreter is served from the app's own origin under /pyodide/ rather than
+// from a CDN: straight out of node_modules in development, and copied into the build.
+const PYODIDE_FILES = ['pyodide.asm.js', 'pyodide.asm.wasm', 'python_stdlib.zip', 'pyodide-lock.json'];
+
+const pyodideAssets = (): Plugin => {
+    const pyodideDir = path.resolve(__dirname, 'node_modules/pyodide');
+    return {
+        name: 'pyodide-assets',
+        configureServer(server) {
+            server.middlewares.use('/pyodide', (req, res, next) => {
+                const file = path.basename(req.url?.split('?')[0] ?? '');
+                if (!PYODIDE_FILES.includes(file)) return next();
+                res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : file.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+                fs.createReadStream(path.join(pyodideDir, file)).pipe(res);
+            });
+        },
+        generateBundle() {
+            for (const file of PYODIDE_FILES) {
+                this.emitFile({ type: 'asset', fileName: `pyodide/${file}`, source: fs.readFileSync(path.join(pyodideDir, file)) });
+            }
+        },
+    };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': env.AUTH_SERVER_URL || 'http://localhost:3001',
+        },
+      },
+      plugins: [react(), pyodideAssets()],
+      // The code runner's worker imports Pyodide, whose module has dynamic imports of its own.
+      worker: {
+        format: 'es',
+      },
+      // Pyodide finds its runtime files relative to its own module, which pre-bundling would move.
+      optimizeDeps: {
+        exclude: ['pyodide'],
       },
-      plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY ?? ''),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER ?? '')
       },
       resolve: {
         alias: {